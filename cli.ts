@@ -0,0 +1,10 @@
+import { runCli, CliError, USAGE } from "./src/cli";
+
+// Entry point: npm run cli -- <command> [options] (see src/cli.ts, or run with no arguments)
+try {
+  console.log(runCli(process.argv.slice(2)));
+} catch (error) {
+  if (!(error instanceof CliError)) throw error;
+  console.error(`${error.message}\n\n${USAGE}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,346 @@
+// cli.ts
+
+/**
+ * Headless front end for the engine, for scripted parameter sweeps and
+ * figures. Arguments in, text out: the entry point at the repository root
+ * (cli.ts) only wires this to process.argv and stdout.
+ *
+ * Every command prints human-readable SI units by default (--units picks
+ * another system, as the app's selector does), or machine output with
+ * --format json|csv. Machine output keeps geometric units (rₛ, rₛ/c) next to
+ * the SI columns at full precision, whatever --units says; values past the
+ * double range are written as exponent strings ("3.1e+4000"), infinities as
+ * "Infinity".
+ */
+
+import { BlackHoleEngine, type PhysicsModel } from "./engine/BlackHoleEngine";
+import { PhotonTracker } from "./engine/PhotonTracker";
+import { LogNumber } from "./engine/LogNumber";
+import { createUnits } from "./engine/units";
+import { timeScales } from "./engine/timescales";
+import type { ObserverKind } from "./engine/observers";
+import { runAccuracyReport, formatAccuracyReport } from "./engine/accuracy";
+import { csvCell } from "./engine/timeline";
+import { MAX_PRECISION, NOTATIONS, UNIT_SYSTEMS, DEFAULT_FORMAT_OPTIONS, createFormatter, machineNumber, type FormatOptions } from "./engine/format";
+
+export const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  state     --tau T | --n-tau N            State of faller and observer at that faller proper time
+  photon    --observer-tau T | --n-tau N   Photon sent inward at that observer time: intercept and round trip
+  table     [--from A] [--to B] [--steps K] States sampled over n_tau in [A, B] (default 0..20, 21 steps)
+  accuracy                                 Asymptotic model vs ODE reference geodesics
+
+Scenario (defaults in brackets):
+  --mass M            Black hole mass in solar masses [10]
+  --n-faller N        Faller release point [0]
+  --n-observer N      Observer position [-1]
+  --model M           asymptotic | exact [asymptotic]
+  --observer K        hovering | faller | orbiter [hovering]
+  --release-tau T     Second faller's hover time before the drop, rₛ/c [10]
+  --spin A            a/M [0]
+  --charge Q          Q/M [0]
+
+Output:
+  --format F          text | json | csv [text]
+  --units U           Text units: si | geometric | planck | light [si]
+  --precision P       Significant digits in text, 1 to ${MAX_PRECISION} [4]
+  --notation N        auto | scientific [auto]
+
+Times T are in rₛ/c; n and n_tau as in the app (r = r₊ + rₛ·10^-n, τ = τmax(1 - 10^-n_τ)).`;
+
+/** Bad arguments: the entry point prints the message and the usage */
+export class CliError extends Error {}
+
+type Format = 'text' | 'json' | 'csv';
+type Value = number | string | boolean | LogNumber;
+
+/**
+ * One output quantity. key/value for json and csv, label/text for people.
+ */
+interface Field {
+  key: string;
+  label: string;
+  value: Value;
+  text: string;
+}
+
+type Row = Field[];
+
+interface Options {
+  flags: Map<string, string>;
+  format: Format;
+  display: FormatOptions;  // How text output shows times and lengths
+}
+
+const MODELS: readonly PhysicsModel[] = ['asymptotic', 'exact'];
+const OBSERVERS: readonly ObserverKind[] = ['hovering', 'faller', 'orbiter'];
+const FORMATS: readonly Format[] = ['text', 'json', 'csv'];
+
+// --name value and --name=value; every option takes a value
+function parseFlags(args: string[]): Map<string, string> {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) throw new CliError(`Unexpected argument "${arg}"`);
+    const eq = arg.indexOf('=');
+    if (eq >= 0) {
+      flags.set(arg.slice(2, eq), arg.slice(eq + 1));
+    } else {
+      if (i + 1 >= args.length) throw new CliError(`Missing value for ${arg}`);
+      flags.set(arg.slice(2), args[++i]);
+    }
+  }
+  return flags;
+}
+
+function numberFlag(options: Options, name: string, fallback?: number): number {
+  const raw = options.flags.get(name);
+  if (raw === undefined) {
+    if (fallback === undefined) throw new CliError(`Missing --${name}`);
+    return fallback;
+  }
+  const value = Number(raw);
+  if (raw.trim() === '' || Number.isNaN(value)) throw new CliError(`--${name} must be a number, got "${raw}"`);
+  return value;
+}
+
+function choiceFlag<T extends string>(options: Options, name: string, choices: readonly T[], fallback: T): T {
+  const raw = options.flags.get(name) ?? fallback;
+  if (!(choices as readonly string[]).includes(raw)) throw new CliError(`--${name} must be one of ${choices.join(', ')}, got "${raw}"`);
+  return raw as T;
+}
+
+function createScenario(options: Options) {
+  const units = createUnits(numberFlag(options, 'mass', 10));
+  const config = {
+    nFaller: numberFlag(options, 'n-faller', 0),
+    nObserver: numberFlag(options, 'n-observer', -1),
+    model: choiceFlag(options, 'model', MODELS, 'asymptotic'),
+    observer: { kind: choiceFlag(options, 'observer', OBSERVERS, 'hovering'), releaseTau: numberFlag(options, 'release-tau', 10) },
+    metric: { spin: numberFlag(options, 'spin', 0), charge: numberFlag(options, 'charge', 0) },
+  };
+  let engine: BlackHoleEngine;
+  try {
+    engine = new BlackHoleEngine(config);
+  } catch (error) {
+    // The constructor's rejections (observer inside the faller, no orbit, ...) are argument errors here
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+  return {
+    units,
+    engine,
+    formatter: createFormatter(units, options.display),
+    geometric: createFormatter(units, { ...options.display, system: 'geometric' }),
+    si: createFormatter(units, { ...options.display, system: 'si' }),
+  };
+}
+
+type Scenario = ReturnType<typeof createScenario>;
+
+// ============ HUMAN-READABLE TEXT ============
+
+function formatN(n: number): string {
+  return isFinite(n) ? n.toFixed(6) : '∞ (horizon)';
+}
+
+// Same lookup as the app's "≈ ..." hints
+function timeScaleReference(seconds: LogNumber): string {
+  const s = seconds.toNumber();
+  return timeScales.find(scale => s < scale.seconds * 10)?.reference ?? '';
+}
+
+// ============ FIELDS ============
+
+function nField(key: string, label: string, n: number): Field {
+  return { key, label, value: n, text: formatN(n) };
+}
+
+function timeFields(key: string, label: string, tau: number | LogNumber, scenario: Scenario): Field[] {
+  const geometric = typeof tau === 'number' ? LogNumber.fromNumber(tau) : tau;
+  const seconds = scenario.units.tauToSecondsLog(geometric);
+  return [
+    { key, label: `${label} (rₛ/c)`, value: geometric, text: scenario.geometric.time(geometric) },
+    { key: `${key}Seconds`, label, value: seconds, text: scenario.formatter.seconds(seconds) },
+  ];
+}
+
+// Radius in rₛ and the distance above the outer horizon in metres (rₛ·10^-n)
+function positionFields(prefix: string, label: string, n: number, scenario: Scenario): Field[] {
+  const r = scenario.engine.metric.radius(n);
+  const aboveHorizon = isFinite(n) ? LogNumber.pow10(-n).scale(scenario.units.rs_km * 1000) : LogNumber.ZERO;
+  return [
+    nField(`${prefix}N`, `${label} n`, n),
+    { key: `${prefix}R`, label: `${label} r (rₛ)`, value: r, text: scenario.geometric.length(r) },
+    { key: `${prefix}AboveHorizonMetres`, label: `${label} above horizon`, value: aboveHorizon, text: scenario.formatter.metres(aboveHorizon) },
+  ];
+}
+
+function stateRow(scenario: Scenario, nTau: number): Row {
+  const { engine } = scenario;
+  const state = engine.getStateByNTau(nTau);
+  const signal = engine.getReceivedSignal(state.object2.tau);
+  return [
+    { key: 'nTau', label: 'n_τ', value: nTau, text: isFinite(nTau) ? nTau.toFixed(6) : '∞' },
+    ...positionFields('faller', 'Faller', state.object1.n, scenario),
+    ...timeFields('fallerTau', 'Faller proper time', state.object1.tau, scenario),
+    ...positionFields('observer', 'Observer', state.object2.n, scenario),
+    ...timeFields('observerTau', 'Observer proper time', state.object2.tau, scenario),
+    ...timeFields('coordinateTime', 'Coordinate time', state.coordinateTime, scenario),
+    nField('apparentN', 'Apparent faller n (light arriving now)', signal.emission.n),
+    { key: 'onePlusZ', label: '1 + z of that light', value: signal.onePlusZ, text: scenario.formatter.number(signal.onePlusZ) },
+    { key: 'atHorizon', label: 'At horizon', value: state.atHorizon, text: state.atHorizon ? 'yes' : 'no' },
+  ];
+}
+
+// A photon sent inward at observer time tauEmit, reflected by the faller, back at the observer
+function photonRow(scenario: Scenario, tauEmit: LogNumber): Row {
+  const photon = new PhotonTracker(scenario.engine).emitFromObserver(tauEmit);
+  // Deltas straight from the engine: past ~10^16 rₛ/c the intercept is lost in the absolute times
+  const intercept = scenario.engine.getPhotonIntersectDelta(tauEmit);
+  const roundTrip = scenario.engine.getRoundTripDelta(tauEmit);
+  const roundTripSeconds = scenario.units.tauToSecondsLog(roundTrip);
+  return [
+    ...timeFields('emitTau', 'Sent at observer time', tauEmit, scenario),
+    nField('emitN', 'Sent from n', photon.emitN),
+    ...timeFields('intercept', 'Until it meets the faller', intercept, scenario),
+    nField('reflectN', 'Faller n at the meeting', photon.reflectN),
+    ...timeFields('roundTrip', 'Until the reflection is back', roundTrip, scenario),
+    {
+      key: 'roundTripReference',
+      label: 'Round trip, for scale',
+      value: roundTrip.isFinite() ? timeScaleReference(roundTripSeconds) : '',
+      text: roundTrip.isFinite() ? `≈ ${timeScaleReference(roundTripSeconds)}` : 'never returns',
+    },
+  ];
+}
+
+// ============ OUTPUT FORMATS ============
+
+function machineValue(value: Value): number | string | boolean {
+  return typeof value === 'number' || value instanceof LogNumber ? machineNumber(value) : value;
+}
+
+function render(rows: Row[], format: Format, title: string): string {
+  switch (format) {
+    case 'json': {
+      const objects = rows.map(row => Object.fromEntries(row.map(f => [f.key, machineValue(f.value)])));
+      return JSON.stringify(objects.length === 1 ? objects[0] : objects, null, 2);
+    }
+    case 'csv':
+      return [
+        rows[0].map(f => csvCell(f.key)).join(','),
+        ...rows.map(row => row.map(f => csvCell(machineValue(f.value))).join(',')),
+      ].join('\n');
+    case 'text': {
+      if (rows.length === 1) {
+        const width = Math.max(...rows[0].map(f => f.label.length));
+        return [title, '', ...rows[0].map(f => `  ${f.label.padEnd(width)}  ${f.text}`)].join('\n');
+      }
+      // Tables: SI columns only, the geometric ones are in json/csv
+      const columns = rows[0].map((_, i) => i).filter(i => !/\(rₛ(\/c)?\)$/.test(rows[0][i].label));
+      const widths = columns.map(i => Math.max(rows[0][i].label.length, ...rows.map(row => row[i].text.length)));
+      const line = (cells: string[]) => cells.map((cell, j) => cell.padStart(widths[j])).join('  ');
+      return [title, '', line(columns.map(i => rows[0][i].label)), ...rows.map(row => line(columns.map(i => row[i].text)))].join('\n');
+    }
+  }
+}
+
+function describe(scenario: Scenario): string {
+  const { engine, units } = scenario;
+  return `${units.M_solar} M☉ (rₛ = ${scenario.si.length(1)}), ${engine.metric.label}, ${engine.model} model, ` +
+    `${engine.observerKind} observer; faller from n = ${engine.cfg.nFaller}, observer at n = ${engine.cfg.nObserver}`;
+}
+
+// ============ COMMANDS ============
+
+function stateCommand(options: Options): string {
+  const scenario = createScenario(options);
+  const nTau = options.flags.has('tau')
+    ? scenario.engine.tauToNTau(numberFlag(options, 'tau'))
+    : numberFlag(options, 'n-tau');
+  return render([stateRow(scenario, nTau)], options.format, `State — ${describe(scenario)}`);
+}
+
+function photonCommand(options: Options): string {
+  const scenario = createScenario(options);
+  const tauEmit = options.flags.has('observer-tau')
+    ? LogNumber.fromNumber(numberFlag(options, 'observer-tau'))
+    : scenario.engine.getStateByNTau(numberFlag(options, 'n-tau')).object2.tau;
+  return render([photonRow(scenario, tauEmit)], options.format, `Photon round trip — ${describe(scenario)}`);
+}
+
+function tableCommand(options: Options): string {
+  const scenario = createScenario(options);
+  const from = numberFlag(options, 'from', 0);
+  const to = numberFlag(options, 'to', 20);
+  const steps = numberFlag(options, 'steps', 21);
+  if (!Number.isInteger(steps) || steps < 1) throw new CliError(`--steps must be a positive integer, got ${steps}`);
+  if (from < 0 || to < from) throw new CliError(`Need 0 <= --from <= --to, got ${from}..${to}`);
+
+  // Uniform in n_τ, i.e. logarithmic in the proper time still to go
+  const rows: Row[] = [];
+  for (let i = 0; i < steps; i++) {
+    const nTau = steps === 1 ? from : from + (to - from) * i / (steps - 1);
+    const state = stateRow(scenario, nTau);
+    const photon = photonRow(scenario, scenario.engine.getStateByNTau(nTau).object2.tau);
+    rows.push([...state, ...photon.filter(f => f.key.startsWith('intercept') || (f.key.startsWith('roundTrip') && f.key !== 'roundTripReference'))]);
+  }
+  return render(rows, options.format, `n_τ from ${from} to ${to} — ${describe(scenario)}`);
+}
+
+function accuracyCommand(options: Options): string {
+  const report = runAccuracyReport();
+  switch (options.format) {
+    case 'text':
+      return formatAccuracyReport(report);
+    case 'json':
+      return JSON.stringify(report, (_key, value) => typeof value === 'number' && !isFinite(value) ? String(value) : value, 2);
+    case 'csv': {
+      const header = 'function,errorUnit,nFaller,nObserver,at,reference,model,error';
+      const lines = report.functions.flatMap(f => f.samples.map(s =>
+        [f.name, f.errorUnit, s.nFaller ?? '', s.nObserver ?? '', s.at, s.reference, s.model, s.error].map(v => csvCell(v)).join(',')
+      ));
+      return [header, ...lines].join('\n');
+    }
+  }
+}
+
+const SCENARIO_FLAGS = ['mass', 'n-faller', 'n-observer', 'model', 'observer', 'release-tau', 'spin', 'charge'];
+
+const COMMANDS: Record<string, { run: (options: Options) => string; flags: string[] }> = {
+  state: { run: stateCommand, flags: [...SCENARIO_FLAGS, 'tau', 'n-tau'] },
+  photon: { run: photonCommand, flags: [...SCENARIO_FLAGS, 'observer-tau', 'n-tau'] },
+  table: { run: tableCommand, flags: [...SCENARIO_FLAGS, 'from', 'to', 'steps'] },
+  accuracy: { run: accuracyCommand, flags: [] },
+};
+
+/**
+ * Run one command
+ * @param argv - Arguments after the script name, e.g. ['state', '--n-tau', '5']
+ * @returns What to print on stdout
+ */
+export function runCli(argv: string[]): string {
+  const [command, ...rest] = argv;
+  if (command === undefined || command === 'help' || command === '--help') return USAGE;
+  const spec = COMMANDS[command];
+  if (!spec) throw new CliError(`Unknown command "${command}"`);
+
+  const flags = parseFlags(rest);
+  const options: Options = { flags, format: 'text', display: { ...DEFAULT_FORMAT_OPTIONS, precision: 4 } };
+  options.format = choiceFlag(options, 'format', FORMATS, 'text');
+  options.display = {
+    system: choiceFlag(options, 'units', UNIT_SYSTEMS, 'si'),
+    precision: numberFlag(options, 'precision', 4),
+    notation: choiceFlag(options, 'notation', NOTATIONS, 'auto'),
+  };
+  if (!Number.isInteger(options.display.precision) || options.display.precision < 1 || options.display.precision > MAX_PRECISION) {
+    throw new CliError(`--precision must be an integer from 1 to ${MAX_PRECISION}, got ${options.display.precision}`);
+  }
+  for (const name of ['format', 'units', 'precision', 'notation']) flags.delete(name);
+  for (const name of flags.keys()) {
+    if (!spec.flags.includes(name)) throw new CliError(`Unknown option --${name} for ${command}`);
+  }
+
+  return spec.run(options);
+}
@@ -1,20 +1,125 @@
 // BlackHoleEngine.ts
 
-import { nToRadius, fallingN, maxProperTime, coordinateTime, stationaryProperTime, photonN, photonNInward } from "./physics";
+import {
+  fallingN, maxProperTime, coordinateTime, fallingNAtCoordinateTime, photonN, photonNInward,
+  photonInterceptDelta, interiorProperTime, interiorRadius, advancedTimeAtRadius, tidalStretch,
+} from "./physics";
+import { LogNumber } from "./LogNumber";
+import type { TrackedPhoton } from "./PhotonTracker";
+import { createObserverWorldline, type ObserverConfig, type ObserverKind, type ObserverWorldline } from "./observers";
+import { createMetric, type Metric, type MetricConfig, type RadialFall } from "./metrics";
+
+/**
+ * 'asymptotic' - O(1) scaling-law approximations (fast, qualitative; Schwarzschild only)
+ * 'exact'      - geodesics of the chosen metric: closed-form cycloid fall and
+ *                tortoise-coordinate photons for Schwarzschild, tabulated otherwise
+ */
+export type PhysicsModel = 'asymptotic' | 'exact';
+
+export const physicsModelLabels: Record<PhysicsModel, string> = {
+  asymptotic: 'Asymptotic (fast)',
+  exact: 'Exact geodesics',
+};
+
+// Furthest n_tau searched for an observer time; past the exact model's linear clock for any reading
+const MAX_SEEK_N_TAU = 1e300;
 
 export interface Config {
   nFaller: number;   // Object 1 (infaller) initial position
-  nObserver: number; // Object 2 (stationary observer) position
+  nObserver: number; // Object 2 (observer) position: hover point, drop point or orbit radius
+  model?: PhysicsModel; // Defaults to 'asymptotic'
+  observer?: ObserverConfig; // Defaults to a hovering observer
+  metric?: MetricConfig; // Defaults to Schwarzschild
+}
+
+/**
+ * Event on the faller's worldline whose outgoing light reaches the observer
+ * at a given observer proper time (the retarded, "apparent" faller).
+ */
+export interface EmissionEvent {
+  nTau: number;              // Faller's logarithmic proper time at emission
+  n: number;                 // Faller's position at emission
+  tau: number;               // Faller's proper time at emission
+  coordinateTime: LogNumber; // Schwarzschild t at emission
+}
+
+/**
+ * What the observer receives at a given proper time: the emission event plus
+ * the frequency shift and bolometric dimming of that photon.
+ */
+export interface ReceivedSignal {
+  emission: EmissionEvent;
+  onePlusZ: LogNumber;      // Total redshift factor 1 + z = ν_emit / ν_obs
+  gravitational: LogNumber; // √(f_obs / f_emit)
+  doppler: LogNumber;       // γ(1 + v) of the receding faller
+  observerMotion: LogNumber; // Blueshift from the observer's own motion (1 when hovering)
+  dimming: LogNumber;       // Bolometric flux ratio (1 + z)^-4 (I/ν⁴ is invariant)
+  magnitudes: number;       // Dimming in magnitudes: 2.5·log₁₀((1 + z)⁴)
+}
+
+/**
+ * Faller's state after crossing the horizon, in horizon-regular
+ * (ingoing Eddington–Finkelstein) terms. No external observer ever sees it.
+ */
+export interface InteriorState {
+  tauSinceHorizon: number; // Faller's proper time since the crossing
+  tau: number;             // Faller's total proper time (exterior + interior)
+  r: number;               // Radius in units of rₛ (1 at the horizon, 0 at the singularity)
+  tauRemaining: number;    // Proper time left until r = 0
+  tidalStretch: number;    // Radial tidal acceleration per unit length, (c/rₛ)² units
+  advancedTime: number;    // Ingoing EF time v = t + r*
+  atSingularity: boolean;
+}
+
+/**
+ * A spacetime event as (r, v): radius in rₛ and ingoing EF advanced time.
+ * Enough to place it in both EF and Kruskal–Szekeres diagrams.
+ */
+export interface DiagramEvent {
+  r: number;
+  v: number;
+}
+
+/**
+ * Worldlines for a spacetime diagram, all sampled from this engine so they
+ * match the 1-D view. Events whose v overflows are dropped.
+ */
+export interface SpacetimeDiagram {
+  metric: Metric;            // For the Kruskal map and light-cone slopes
+  faller: DiagramEvent[];    // Release to horizon (and on to r = 0 in the exact model)
+  observer: DiagramEvent[];  // Release up to now
+  photons: { id: number; events: DiagramEvent[] }[];  // Paths travelled so far
+  now: { faller: DiagramEvent | null; observer: DiagramEvent };
+  horizonV: number | null;   // Faller's v at the crossing (exact model only)
 }
 
 export class BlackHoleEngine {
+  readonly metric: Metric;
+  private fall: RadialFall;
+  private observer: ObserverWorldline;
+
   constructor(public cfg: Config) {
     if (cfg.nObserver >= cfg.nFaller)
       throw new Error("Observer must be further out (lower n)");
+    this.metric = createMetric(cfg.metric);
+    if (this.model === 'asymptotic' && this.metric.kind !== 'schwarzschild')
+      throw new Error("The asymptotic model is Schwarzschild only: use the exact model with spin or charge");
+    this.fall = this.metric.fall(cfg.nFaller);
+    this.observer = createObserverWorldline(cfg.observer, cfg.nObserver, this.model, this.metric);
+  }
+
+  get model(): PhysicsModel {
+    return this.cfg.model ?? 'asymptotic';
+  }
+
+  get observerKind(): ObserverKind {
+    return this.observer.kind;
   }
 
   get tauMax() {
-    return maxProperTime(this.cfg.nFaller);
+    return this.model === 'exact'
+      ? this.fall.maxProperTime
+      : maxProperTime(this.cfg.nFaller);
   }
 
   /**
@@ -43,12 +148,15 @@ export class BlackHoleEngine {
    * Get state using linear tau (legacy, for backward compatibility)
    */
   getState(tau: number) {
-    const nFaller = fallingN(tau, this.cfg.nFaller, this.tauMax);
-    const t = coordinateTime(nFaller, this.cfg.nFaller);
-    const tauObserver = stationaryProperTime(t, this.cfg.nObserver);
+    const nFaller = this.model === 'exact'
+      ? this.fall.nByNTau(this.tauToNTau(tau))
+      : fallingN(tau, this.cfg.nFaller, this.tauMax);
+    const t = this.coordinateTimeAtN(nFaller);
+    const tauObserver = this.observer.properTimeAt(t);
+    const nObserver = this.observer.nAt(t);
     const ret = {
-      object1: {n: nFaller, r: nToRadius(nFaller), tau},
-      object2: {n: this.cfg.nObserver, r: nToRadius(this.cfg.nObserver), tau: tauObserver},
+      object1: {n: nFaller, r: this.metric.radius(nFaller), tau},
+      object2: {n: nObserver, r: this.metric.radius(nObserver), tau: tauObserver},
       coordinateTime: t,
       atHorizon: !isFinite(nFaller),
     };
@@ -58,18 +166,21 @@ export class BlackHoleEngine {
 
   /**
    * Get state using logarithmic n_tau
-   * With logarithmic time: n_faller = n_start + n_tau (linear relationship!)
+   * Asymptotic model: n_faller = n_start + n_tau (linear relationship!)
+   * Exact model: solved on the geodesic, still linear in n_tau near the horizon
    */
   getStateByNTau(nTau: number) {
-    // With log time, position becomes linear: n = n_start + n_tau
-    const nFaller = this.cfg.nFaller + nTau;
-    const t = coordinateTime(nFaller, this.cfg.nFaller);
-    const tauObserver = stationaryProperTime(t, this.cfg.nObserver);
+    const nFaller = this.model === 'exact'
+      ? this.fall.nByNTau(nTau)
+      : this.cfg.nFaller + nTau;
+    const t = this.coordinateTimeAtN(nFaller);
+    const tauObserver = this.observer.properTimeAt(t);
+    const nObserver = this.observer.nAt(t);
     const tau = this.nTauToTau(nTau);
 
     let ret = {
-      object1: {n: nFaller, r: nToRadius(nFaller), tau, nTau},
-      object2: {n: this.cfg.nObserver, r: nToRadius(this.cfg.nObserver), tau: tauObserver},
+      object1: {n: nFaller, r: this.metric.radius(nFaller), tau, nTau},
+      object2: {n: nObserver, r: this.metric.radius(nObserver), tau: tauObserver},
       coordinateTime: t,
       atHorizon: !isFinite(nFaller)
     };
@@ -77,23 +188,209 @@ export class BlackHoleEngine {
     return ret;
   }
 
+  /**
+   * Inverse of the faller's n over n_tau: the moment it reaches n
+   * (0 if it starts there or further in). Bisects the exact model's nByNTau
+   * rather than inverting its proper time, which rounds to tauMax near the horizon.
+   */
+  getNTauAtFallerN(n: number): number {
+    if (n <= this.cfg.nFaller) return 0;
+    if (!isFinite(n)) return Infinity;
+    if (this.model === 'asymptotic') return n - this.cfg.nFaller;
+
+    let high = 1;
+    while (this.fall.nByNTau(high) < n) high *= 2;
+    let low = high === 1 ? 0 : high / 2;
+    for (let i = 0; i < 64 && high - low > Number.EPSILON * high; i++) {
+      const mid = (low + high) / 2;
+      if (this.fall.nByNTau(mid) >= n) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+    return high;
+  }
+
+  /**
+   * The moment (faller's n_tau) the observer's clock reads tau, by bisection
+   * over getStateByNTau: the observer's clock is tied to the faller's through
+   * the photon exchange, not a formula this could invert.
+   * @returns null if the observer's clock never gets there (a falling observer's stops at its horizon)
+   */
+  getNTauAtObserverTau(tau: LogNumber): number | null {
+    const reached = (nTau: number) => this.getStateByNTau(nTau).object2.tau.gte(tau);
+    if (reached(0)) return 0;
+    let high = 1;
+    while (!reached(high)) {
+      high *= 2;
+      if (high > MAX_SEEK_N_TAU) return null;
+    }
+    let low = high === 1 ? 0 : high / 2;
+    for (let i = 0; i < 64 && high - low > Number.EPSILON * high; i++) {
+      const mid = (low + high) / 2;
+      if (reached(mid)) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+    return high;
+  }
+
+  /**
+   * Proper time from the horizon crossing to the singularity. Always from the
+   * exact cycloid: the asymptotic model has no interior to approximate. 0 where
+   * the metric has no interior here (charged or spinning: an inner horizon waits).
+   */
+  get interiorTauMax(): number {
+    return this.metric.hasInterior ? interiorProperTime(this.cfg.nFaller) : 0;
+  }
+
+  /**
+   * Continue the faller past the horizon. The crossing is an ordinary moment
+   * on its clock: tau simply keeps counting from tauMax.
+   * @param tauSinceHorizon - Faller's proper time since crossing r = rₛ
+   */
+  getInteriorState(tauSinceHorizon: number): InteriorState {
+    if (!this.metric.hasInterior)
+      throw new Error(`No interior for ${this.metric.label}`);
+    const tauIn = Math.min(Math.max(0, tauSinceHorizon), this.interiorTauMax);
+    const r = interiorRadius(tauIn, this.cfg.nFaller);
+    return {
+      tauSinceHorizon: tauIn,
+      tau: this.tauMax + tauIn,
+      r,
+      tauRemaining: this.interiorTauMax - tauIn,
+      tidalStretch: tidalStretch(r),
+      advancedTime: advancedTimeAtRadius(r, this.cfg.nFaller),
+      atSingularity: tauIn >= this.interiorTauMax,
+    };
+  }
+
+  private coordinateTimeAtN(n: number): LogNumber {
+    return this.model === 'exact'
+      ? LogNumber.fromNumber(this.fall.coordinateTime(n))
+      : coordinateTime(n, this.cfg.nFaller);
+  }
+
+  // Exact-model coordinate times grow only like n·ln10/(2κ), so plain numbers suffice there
+  private outwardPhotonN(nEmit: number, tEmit: LogNumber, tCurrent: LogNumber): number {
+    return this.model === 'exact'
+      ? this.metric.outgoingPhotonN(nEmit, tCurrent.toNumber() - tEmit.toNumber())
+      : photonN(nEmit, tEmit, tCurrent);
+  }
+
+  private inwardPhotonN(nEmit: number, tEmit: LogNumber, tCurrent: LogNumber): number {
+    return this.model === 'exact'
+      ? this.metric.ingoingPhotonN(nEmit, tCurrent.toNumber() - tEmit.toNumber())
+      : photonNInward(nEmit, tEmit, tCurrent);
+  }
+
   getPhotonN(tauEmit: number, tauCurrent: number): number {
     const emitState = this.getState(tauEmit);
     const currentState = this.getState(tauCurrent);
-    return photonN(emitState.object1.n, emitState.coordinateTime, currentState.coordinateTime);
+    return this.outwardPhotonN(emitState.object1.n, emitState.coordinateTime, currentState.coordinateTime);
   }
 
   photonArrived(tauEmit: number, tauCurrent: number): boolean {
-    return this.getPhotonN(tauEmit, tauCurrent) <= this.cfg.nObserver;
+    const currentState = this.getState(tauCurrent);
+    return this.getPhotonN(tauEmit, tauCurrent) <= currentState.object2.n;
+  }
+
+  // Coordinate time at which light emitted by the faller at nTau reaches the observer
+  private arrivalTimeOfEmission(nTau: number): LogNumber {
+    const n = this.getStateByNTau(nTau).object1.n;
+    const t = this.coordinateTimeAtN(n);
+    return t.add(this.observer.outgoingArrivalDelta(n, t));
+  }
+
+  /**
+   * Find the emission event of the outgoing photon that arrives at the observer
+   * at the given observer proper time. Inverts photonN/photonArrived over the
+   * faller's worldline by bisection in n_tau (arrival time is monotonic in it).
+   * Before the first photon from the release point arrives, the observer still
+   * sees the faller at rest at its start position (n_tau = 0).
+   * @param tauObserver - Observer's proper time at reception
+   */
+  getEmissionEvent(tauObserver: LogNumber): EmissionEvent {
+    const tArrival = this.observerTauToCoordinateTime(tauObserver);
+
+    let nTauLow = 0;
+    let nTauHigh = 1;
+    if (!tArrival.isFinite()) {
+      // A falling observer past its own horizon crossing: it has seen the faller's whole exterior
+      nTauLow = Infinity;
+    } else if (tArrival.gte(this.arrivalTimeOfEmission(0))) {
+      while (this.arrivalTimeOfEmission(nTauHigh).lt(tArrival)) {
+        nTauLow = nTauHigh;
+        nTauHigh *= 2;
+      }
+      for (let i = 0; i < 100 && nTauHigh - nTauLow > 1e-13 * nTauHigh; i++) {
+        const nTauMid = (nTauLow + nTauHigh) / 2;
+        if (this.arrivalTimeOfEmission(nTauMid).lt(tArrival)) {
+          nTauLow = nTauMid;
+        } else {
+          nTauHigh = nTauMid;
+        }
+      }
+    }
+
+    const state = this.getStateByNTau(nTauLow);
+    return {
+      nTau: nTauLow,
+      n: state.object1.n,
+      tau: state.object1.tau,
+      coordinateTime: state.coordinateTime,
+    };
+  }
+
+  /**
+   * Redshift and dimming of the faller's light arriving at the observer at the
+   * given observer proper time. Ignores the (negligible) inverse-square change,
+   * so magnitudes are relative to the same source unshifted.
+   * @param tauObserver - Observer's proper time at reception
+   */
+  getReceivedSignal(tauObserver: LogNumber): ReceivedSignal {
+    const emission = this.getEmissionEvent(tauObserver);
+    const shifts = this.fallerLightShifts(emission.n, tauObserver);
+    return {
+      emission,
+      ...shifts,
+      dimming: LogNumber.fromLog10(-4 * shifts.onePlusZ.log10),
+      magnitudes: 10 * shifts.onePlusZ.log10,
+    };
+  }
+
+  /**
+   * Redshift 1 + z of light the faller sends from nEmit, as the observer
+   * receives it at the given proper time (a reply to a signal, say)
+   */
+  getFallerLightRedshift(nEmit: number, tauObserver: LogNumber): LogNumber {
+    return this.fallerLightShifts(nEmit, tauObserver).onePlusZ;
+  }
+
+  private fallerLightShifts(nEmit: number, tauObserver: LogNumber) {
+    const tReceived = this.observerTauToCoordinateTime(tauObserver);
+    const gravitational = this.metric.gravitationalRedshift(nEmit, this.observer.nAt(tReceived));
+    const doppler = this.metric.dopplerRedshift(nEmit, this.cfg.nFaller);
+    const observerMotion = this.observer.blueshiftAt(tReceived);
+    return { onePlusZ: gravitational.mul(doppler).div(observerMotion), gravitational, doppler, observerMotion };
   }
 
   /**
    * Convert observer's proper time to coordinate time
-   * Inverse of stationaryProperTime: t = τ / √(1 - 1/r)
+   * (hovering: t = τ / √(1 - 1/r); the other observer kinds have their own clocks)
+   */
+  private observerTauToCoordinateTime(tauObserver: LogNumber): LogNumber {
+    return this.observer.coordinateTimeAt(tauObserver);
+  }
+
+  /**
+   * Observer's n-coordinate at the given observer proper time
    */
-  private observerTauToCoordinateTime(tauObserver: number): number {
-    const rObserver = nToRadius(this.cfg.nObserver);
-    return tauObserver / Math.sqrt(1 - 1 / rObserver);
+  getObserverNAtTau(tauObserver: LogNumber): number {
+    return this.observer.nAt(this.observerTauToCoordinateTime(tauObserver));
   }
 
   /**
@@ -102,97 +399,190 @@ export class BlackHoleEngine {
    * @param tauEmit - Observer's proper time when photon was emitted
    * @param tauCurrent - Observer's current proper time
    */
-  getObserverPhotonN(tauEmit: number, tauCurrent: number): number {
+  getObserverPhotonN(tauEmit: LogNumber, tauCurrent: LogNumber): number {
     const tEmit = this.observerTauToCoordinateTime(tauEmit);
     const tCurrent = this.observerTauToCoordinateTime(tauCurrent);
-    return photonNInward(this.cfg.nObserver, tEmit, tCurrent);
+    return this.inwardPhotonN(this.observer.nAt(tEmit), tEmit, tCurrent);
   }
 
   /**
    * Check if photon emitted from observer has reached the horizon
    */
-  observerPhotonAtHorizon(tauEmit: number, tauCurrent: number): boolean {
+  observerPhotonAtHorizon(tauEmit: LogNumber, tauCurrent: LogNumber): boolean {
     return !isFinite(this.getObserverPhotonN(tauEmit, tauCurrent));
   }
 
+  /**
+   * Get the n-coordinate of a photon sent outward from nEmit towards the observer.
+   * Event times are given as observer proper time, which labels the same
+   * Schwarzschild time slices as coordinate time.
+   * @param nEmit - Where the photon starts (e.g. a reflection on the faller)
+   * @param tauEmit - Observer's proper time at emission
+   * @param tauCurrent - Observer's current proper time
+   */
+  getOutgoingPhotonN(nEmit: number, tauEmit: LogNumber, tauCurrent: LogNumber): number {
+    const tEmit = this.observerTauToCoordinateTime(tauEmit);
+    const tCurrent = this.observerTauToCoordinateTime(tauCurrent);
+    return this.outwardPhotonN(nEmit, tEmit, tCurrent);
+  }
+
+  /**
+   * Observer proper time at which an outgoing photon from nEmit catches up with the observer
+   * @param nEmit - Where the photon starts
+   * @param tauEmit - Observer's proper time at emission
+   */
+  getOutgoingArrivalTau(nEmit: number, tauEmit: LogNumber): LogNumber {
+    const tEmit = this.observerTauToCoordinateTime(tauEmit);
+    const dt = this.observer.outgoingArrivalDelta(nEmit, tEmit);
+    if (!dt.isFinite()) return LogNumber.INFINITY;
+    return tauEmit.add(this.observer.properTimeElapsed(tEmit, dt));
+  }
+
+  /**
+   * Faller's n-coordinate on the Schwarzschild time slice of the given observer proper time
+   */
+  getFallerNAtObserverTau(tauObserver: LogNumber): number {
+    return this.fallerNAtCoordinateTime(this.observerTauToCoordinateTime(tauObserver));
+  }
+
   /**
    * Get faller's n-coordinate at a given coordinate time.
-   * Inverse of coordinateTime: n = log10(t + 10^nStart)
+   * Inverse of coordinateTime (asymptotic: n = log10(t + 10^nStart))
    * @param t - Coordinate time (relative to faller's start at t=0)
    */
-  private fallerNAtCoordinateTime(t: number): number {
-    if (t <= 0) return this.cfg.nFaller;
-    const nStart = this.cfg.nFaller;
-    const val = t + Math.pow(10, nStart);
-    return Math.log10(val);
+  private fallerNAtCoordinateTime(t: LogNumber): number {
+    if (this.model === 'exact') return this.fall.nAtCoordinateTime(t.toNumber());
+    return fallingNAtCoordinateTime(t, this.cfg.nFaller);
   }
 
   /**
    * Find how long (in observer proper time) until a photon emitted now
-   * intersects the falling object.
-   * Uses binary search with actual Schwarzschild physics.
+   * intersects the falling object. Closed form in both models, no search.
    *
    * Key physics:
    * - Both photon and faller slow down near horizon at same rate asymptotically
-   * - Photon always has slight edge and catches up in finite coordinate time
-   * - Intercept time grows with emission time, but remains finite
+   * - Asymptotic model: the photon always has a slight edge and catches up in
+   *   finite coordinate time, approaching its full trip to the horizon as the
+   *   emission time grows (photonInterceptDelta)
+   * - Exact model: a photon sent after the faller's horizon advanced time only
+   *   meets it inside, which no outside clock ever reads (INFINITY)
    *
    * @param tauEmit - Observer's proper time when photon was emitted
-   * @returns Delta in observer proper time until intersection (Infinity if no intersection)
+   * @returns Delta in observer proper time until intersection (INFINITY if no intersection)
    */
-  getPhotonIntersectDelta(tauEmit: number): number {
+  getPhotonIntersectDelta(tauEmit: LogNumber): LogNumber {
     const tEmit = this.observerTauToCoordinateTime(tauEmit);
-    const rObserver = nToRadius(this.cfg.nObserver);
+    // The photon leaves from wherever the observer is at emission
+    const nEmit = this.observer.nAt(tEmit);
+    if (!isFinite(nEmit)) return LogNumber.INFINITY;
 
-    // Binary search for intersection time in coordinate time
-    let tLow = tEmit;
-    let tHigh = tEmit * 2 + 10; // Start with a reasonable upper bound
+    if (this.model === 'exact') {
+      // Exact model: the ingoing photon's advanced time v = t + r* pins down the meeting point
+      const nIntercept = this.fall.interceptN(tEmit.toNumber() + this.metric.tortoise(nEmit));
+      if (!isFinite(nIntercept)) return LogNumber.INFINITY;
+      return this.observer.properTimeElapsed(tEmit, this.coordinateTimeAtN(nIntercept).sub(tEmit));
+    }
 
-    // Find upper bound where photon has passed or caught faller
-    let attempts = 0;
-    while (attempts < 100) {
-      const nFallerAtHigh = this.fallerNAtCoordinateTime(tHigh);
-      const nPhotonAtHigh = photonNInward(this.cfg.nObserver, tEmit, tHigh);
+    // Solved for the delta itself: tEmit may be ~10^1000 while the delta stays
+    // small, and anything done on t would lose it entirely
+    const dt = photonInterceptDelta(nEmit, tEmit, this.cfg.nFaller);
 
-      if (!isFinite(nPhotonAtHigh) || nPhotonAtHigh >= nFallerAtHigh) {
-        break; // Photon reached or passed faller
-      }
+    // Convert coordinate time delta to observer proper time delta
+    return this.observer.properTimeElapsed(tEmit, dt);
+  }
+
+  /**
+   * Observer proper time from sending a photon at tauEmit to seeing its
+   * reflection off the faller: out to wherever the observer has got to by then.
+   * @returns INFINITY if the photon never meets the faller outside the horizon
+   */
+  getRoundTripDelta(tauEmit: LogNumber): LogNumber {
+    const reflectTau = this.getPhotonIntersectTau(tauEmit);
+    if (!reflectTau.isFinite()) return LogNumber.INFINITY;
+    const nReflect = this.getFallerNAtObserverTau(reflectTau);
+    return this.getOutgoingArrivalTau(nReflect, reflectTau).sub(tauEmit);
+  }
 
-      tHigh *= 2;
-      attempts++;
+  /**
+   * Sample worldlines of faller, observer and photons for a spacetime diagram.
+   * The interior is only drawn for the exact Schwarzschild model: the asymptotic
+   * model's t has no horizon-regular continuation, and the other metrics stop
+   * at the outer horizon.
+   * @param nTauNow - Current logarithmic time (the moving marker)
+   * @param photons - Photons emitted so far (PhotonTracker.emitted)
+   * @param interiorTau - Faller's proper time past the horizon, if it is inside
+   */
+  getSpacetimeDiagram(nTauNow: number, photons: readonly TrackedPhoton[], interiorTau: number | null = null, samples = 120): SpacetimeDiagram {
+    const finite = (events: DiagramEvent[]) => events.filter(e => isFinite(e.v) && isFinite(e.r));
+    const eventAt = (n: number, t: LogNumber): DiagramEvent => ({ r: this.metric.radius(n), v: t.toNumber() + this.metric.tortoise(n) });
+    const nowState = this.getStateByNTau(nTauNow);
+    const tauNow = nowState.object2.tau;
 
-      if (tHigh > 1e100 || !isFinite(tHigh)) {
-        return Infinity; // No convergence
+    // Faller: exterior in n_tau (linear in n near the horizon), then the cycloid interior
+    const faller: DiagramEvent[] = [];
+    const nTauEnd = Math.max(30, nTauNow);
+    for (let i = 0; i <= samples; i++) {
+      const state = this.getStateByNTau(nTauEnd * i / samples);
+      faller.push(eventAt(state.object1.n, state.coordinateTime));
+    }
+    const horizonV = this.model === 'exact' ? this.fall.horizonAdvancedTime : null;
+    const drawInterior = horizonV !== null && this.metric.hasInterior;
+    if (drawInterior) {
+      for (let i = 0; i <= samples / 2; i++) {
+        const r = this.getInteriorState(this.interiorTauMax * i / (samples / 2)).r;
+        faller.push({ r, v: advancedTimeAtRadius(r, this.cfg.nFaller) });
       }
     }
 
-    if (attempts >= 100) {
-      return Infinity;
+    // Observer: t from release to now, wherever its worldline takes it
+    const observer: DiagramEvent[] = [];
+    for (let i = 0; i <= samples; i++) {
+      const t = nowState.coordinateTime.scale(i / samples);
+      observer.push(eventAt(this.observer.nAt(t), t));
     }
 
-    // Binary search for intersection
-    for (let i = 0; i < 60; i++) {
-      const tMid = (tLow + tHigh) / 2;
-      const nFallerAtMid = this.fallerNAtCoordinateTime(tMid);
-      const nPhotonAtMid = photonNInward(this.cfg.nObserver, tEmit, tMid);
-
-      if (!isFinite(nPhotonAtMid) || nPhotonAtMid >= nFallerAtMid) {
-        tHigh = tMid;
-      } else {
-        tLow = tMid;
+    // Photons: sample each leg in observer time, up to now
+    const legPoints = (from: LogNumber, to: LogNumber, nAt: (tau: LogNumber) => number): DiagramEvent[] => {
+      const end = to.lt(tauNow) ? to : tauNow;
+      if (end.lt(from)) return [];
+      const events: DiagramEvent[] = [];
+      for (let i = 0; i <= samples / 4; i++) {
+        const tau = from.add(end.sub(from).scale(i / (samples / 4)));
+        events.push(eventAt(nAt(tau), this.observerTauToCoordinateTime(tau)));
       }
-    }
+      return events;
+    };
+    const photonPaths = photons.map(photon => {
+      const inbound = photon.source === 'observer'
+        ? legPoints(photon.emitTau, photon.reflectTau, tau => this.getObserverPhotonN(photon.emitTau, tau))
+        : [];
+      const outbound = isFinite(photon.reflectN)
+        ? legPoints(photon.reflectTau, photon.arrivalTau, tau => this.getOutgoingPhotonN(photon.reflectN, photon.reflectTau, tau))
+        : [];
+      return { id: photon.id, events: finite([...inbound, ...outbound]) };
+    });
 
-    const dtCoordinate = tHigh - tEmit;
+    let fallerNow: DiagramEvent | null = eventAt(nowState.object1.n, nowState.coordinateTime);
+    if (interiorTau !== null && drawInterior) {
+      const interior = this.getInteriorState(interiorTau);
+      fallerNow = { r: interior.r, v: interior.advancedTime };
+    }
 
-    // Convert coordinate time delta to observer proper time delta
-    return dtCoordinate * Math.sqrt(1 - 1 / rObserver);
+    return {
+      metric: this.metric,
+      faller: finite(faller),
+      observer: finite(observer),
+      photons: photonPaths,
+      now: {
+        faller: fallerNow && isFinite(fallerNow.v) ? fallerNow : null,
+        observer: eventAt(nowState.object2.n, nowState.coordinateTime),
+      },
+      horizonV,
+    };
   }
 
   // Legacy method for backwards compatibility
-  getPhotonIntersectTau(tauEmit: number): number {
-    const delta = this.getPhotonIntersectDelta(tauEmit);
-    if (!isFinite(delta)) return Infinity;
-    return tauEmit + delta;
+  getPhotonIntersectTau(tauEmit: LogNumber): LogNumber {
+    return tauEmit.add(this.getPhotonIntersectDelta(tauEmit));
   }
-}
\ No newline at end of file
+}
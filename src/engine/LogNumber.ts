@@ -0,0 +1,114 @@
+// LogNumber.ts
+
+/**
+ * Non-negative magnitude stored as its base-10 logarithm.
+ *
+ * Coordinate time near the horizon grows like 10^n, which leaves the double
+ * range once n passes ~308. Storing log₁₀(x) keeps every quantity finite for
+ * n in the thousands, at a relative resolution of ~2.2e-16 · ln 10 · |log₁₀ x|:
+ * double precision near 1, but already ~5e-13 at 10^1000, as the exponent
+ * takes up digits the mantissa would otherwise have. A sum or difference is
+ * only good to that resolution of the larger operand, so anything
+ * smaller vanishes: a 22 rₛ/c photon trip after an observer time of 10^20
+ * comes out of sub() as zero. Small differences of large values must be
+ * carried as deltas from the start, not recovered with sub().
+ *
+ * Zero is log10 = -Infinity; a genuine infinity is log10 = +Infinity.
+ */
+export class LogNumber {
+  static readonly ZERO = new LogNumber(-Infinity);
+  static readonly INFINITY = new LogNumber(Infinity);
+
+  private constructor(readonly log10: number) {}
+
+  static fromLog10(log10: number): LogNumber {
+    if (Number.isNaN(log10)) throw new Error("LogNumber: log10 is NaN");
+    return new LogNumber(log10);
+  }
+
+  /** Values <= 0 map to ZERO */
+  static fromNumber(x: number): LogNumber {
+    if (Number.isNaN(x)) throw new Error("LogNumber: value is NaN");
+    if (x <= 0) return LogNumber.ZERO;
+    return new LogNumber(Math.log10(x));
+  }
+
+  /** 10^exponent without ever materializing it */
+  static pow10(exponent: number): LogNumber {
+    return LogNumber.fromLog10(exponent);
+  }
+
+  /** Plain number (Infinity once beyond the double range) */
+  toNumber(): number {
+    return Math.pow(10, this.log10);
+  }
+
+  isZero(): boolean {
+    return this.log10 === -Infinity;
+  }
+
+  isFinite(): boolean {
+    return this.log10 !== Infinity;
+  }
+
+  add(other: LogNumber): LogNumber {
+    const hi = Math.max(this.log10, other.log10);
+    const lo = Math.min(this.log10, other.log10);
+    if (lo === -Infinity || !isFinite(hi)) return new LogNumber(hi);
+    return new LogNumber(hi + Math.log1p(Math.pow(10, lo - hi)) / Math.LN10);
+  }
+
+  /** Difference, clamped to ZERO when other >= this */
+  sub(other: LogNumber): LogNumber {
+    if (other.log10 >= this.log10) return LogNumber.ZERO;
+    if (other.log10 === -Infinity || this.log10 === Infinity) return this;
+    return new LogNumber(this.log10 + Math.log1p(-Math.pow(10, other.log10 - this.log10)) / Math.LN10);
+  }
+
+  mul(other: LogNumber): LogNumber {
+    if (this.isZero() || other.isZero()) return LogNumber.ZERO;
+    return new LogNumber(this.log10 + other.log10);
+  }
+
+  div(other: LogNumber): LogNumber {
+    if (other.isZero()) throw new Error("LogNumber: division by zero");
+    if (this.isZero()) return LogNumber.ZERO;
+    return new LogNumber(this.log10 - other.log10);
+  }
+
+  /** Multiply by a plain non-negative factor */
+  scale(factor: number): LogNumber {
+    return this.mul(LogNumber.fromNumber(factor));
+  }
+
+  sqrt(): LogNumber {
+    return new LogNumber(this.log10 / 2);
+  }
+
+  compare(other: LogNumber): -1 | 0 | 1 {
+    if (this.log10 < other.log10) return -1;
+    if (this.log10 > other.log10) return 1;
+    return 0;
+  }
+
+  lt(other: LogNumber): boolean {
+    return this.log10 < other.log10;
+  }
+
+  gte(other: LogNumber): boolean {
+    return this.log10 >= other.log10;
+  }
+
+  /** Same format as Number.prototype.toExponential, for any exponent */
+  toExponential(fractionDigits: number): string {
+    if (this.isZero()) return (0).toExponential(fractionDigits);
+    if (!this.isFinite()) return "Infinity";
+    let exponent = Math.floor(this.log10);
+    let mantissa = Math.pow(10, this.log10 - exponent);
+    if (Number(mantissa.toFixed(fractionDigits)) >= 10) {
+      mantissa /= 10;
+      exponent += 1;
+    }
+    return `${mantissa.toFixed(fractionDigits)}e${exponent >= 0 ? "+" : "-"}${Math.abs(exponent)}`;
+  }
+}
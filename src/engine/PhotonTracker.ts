@@ -0,0 +1,110 @@
+// PhotonTracker.ts
+
+import { BlackHoleEngine } from "./BlackHoleEngine";
+import { LogNumber } from "./LogNumber";
+import type { PhotonSource, PhotonState } from "./types";
+
+/**
+ * A photon as emitted. Every later event (reflection, arrival) is fixed by
+ * the emission, so it is solved once here and positions are pure functions
+ * of the current time - scrubbing backwards just works.
+ */
+export interface TrackedPhoton {
+  id: number;
+  source: PhotonSource;
+  emitTau: LogNumber;          // Observer proper time at emission
+  emitN: number;               // Where it was emitted
+  interceptDelta: LogNumber;   // Observer time from emission to reflection (INFINITY if never, ZERO for faller photons)
+  reflectTau: LogNumber;       // Observer time of reflection; rounds to emitTau once the clock reads ~10^16 rₛ/c
+  reflectN: number;            // Faller's n at reflection (Infinity if never)
+  arrivalTau: LogNumber;       // Observer time of arrival at the observer (INFINITY if never)
+}
+
+/**
+ * Tracks any number of photons exchanged between observer and faller:
+ * observer photons fall in via getObserverPhotonN, reflect where
+ * getPhotonIntersectDelta says they meet the faller, and climb back out
+ * via getOutgoingPhotonN. Faller photons only make the outward leg.
+ */
+export class PhotonTracker {
+  private photons: TrackedPhoton[] = [];
+  private nextId = 1;
+
+  constructor(private engine: BlackHoleEngine) {}
+
+  get emitted(): readonly TrackedPhoton[] {
+    return this.photons;
+  }
+
+  /**
+   * Send a photon from the observer towards the faller
+   * @param tauObserver - Observer's proper time at emission
+   */
+  emitFromObserver(tauObserver: LogNumber): TrackedPhoton {
+    const emitN = this.engine.getObserverNAtTau(tauObserver);
+    const interceptDelta = this.engine.getPhotonIntersectDelta(tauObserver);
+    const reflectTau = tauObserver.add(interceptDelta);
+    const reflectN = reflectTau.isFinite() ? this.engine.getFallerNAtObserverTau(reflectTau) : Infinity;
+    const arrivalTau = reflectTau.isFinite()
+      ? this.engine.getOutgoingArrivalTau(reflectN, reflectTau)
+      : LogNumber.INFINITY;
+    return this.add({ source: 'observer', emitTau: tauObserver, emitN, interceptDelta, reflectTau, reflectN, arrivalTau });
+  }
+
+  /**
+   * Send a photon from the faller towards the observer
+   * @param nTau - Faller's logarithmic proper time at emission
+   */
+  emitFromFaller(nTau: number): TrackedPhoton {
+    const state = this.engine.getStateByNTau(nTau);
+    const emitN = state.object1.n;
+    const emitTau = state.object2.tau;
+    const arrivalTau = isFinite(emitN)
+      ? this.engine.getOutgoingArrivalTau(emitN, emitTau)
+      : LogNumber.INFINITY;
+    return this.add({ source: 'faller', emitTau, emitN, interceptDelta: LogNumber.ZERO, reflectTau: emitTau, reflectN: emitN, arrivalTau });
+  }
+
+  clear(): void {
+    this.photons = [];
+  }
+
+  /**
+   * Positions and ETAs of every tracked photon
+   * @param tauObserver - Observer's current proper time
+   */
+  getStates(tauObserver: LogNumber): PhotonState[] {
+    return this.photons.map(photon => this.stateOf(photon, tauObserver));
+  }
+
+  private add(photon: Omit<TrackedPhoton, 'id'>): TrackedPhoton {
+    const tracked = { id: this.nextId++, ...photon };
+    this.photons.push(tracked);
+    return tracked;
+  }
+
+  // The inbound leg goes by time since emission against the intercept delta:
+  // both stay small where the absolute times would round into each other
+  private stateOf(photon: TrackedPhoton, tauObserver: LogNumber): PhotonState {
+    const { id, source } = photon;
+    const reflects = photon.interceptDelta.isFinite();
+    const nObserver = this.engine.getObserverNAtTau(tauObserver);
+
+    if (tauObserver.lt(photon.emitTau)) {
+      return { id, source, phase: 'pending', n: photon.emitN, eta: photon.emitTau.sub(tauObserver), reflects };
+    }
+    const elapsed = tauObserver.sub(photon.emitTau);
+    if (source === 'observer' && elapsed.lt(photon.interceptDelta)) {
+      const n = this.engine.getObserverPhotonN(photon.emitTau, tauObserver);
+      return { id, source, phase: 'inbound', n, eta: photon.interceptDelta.sub(elapsed), reflects };
+    }
+    if (tauObserver.lt(photon.arrivalTau)) {
+      // Light emitted on the horizon itself never climbs out
+      const n = isFinite(photon.reflectN)
+        ? Math.max(this.engine.getOutgoingPhotonN(photon.reflectN, photon.reflectTau, tauObserver), nObserver)
+        : Infinity;
+      return { id, source, phase: 'outbound', n, eta: photon.arrivalTau.sub(tauObserver), reflects };
+    }
+    return { id, source, phase: 'arrived', n: nObserver, eta: LogNumber.ZERO, reflects };
+  }
+}
@@ -0,0 +1,244 @@
+// accuracy.ts
+
+/**
+ * How far the asymptotic model (physics.ts) is from the real geodesics.
+ *
+ * Every asymptotic function is evaluated against the ODE reference in
+ * geodesics.ts over a grid of (nFaller, nObserver). The reference itself is
+ * checked against the closed-form EXACT section, which bounds its own error
+ * and so the error bars quoted for the model.
+ */
+
+import { BlackHoleEngine } from "./BlackHoleEngine";
+import { LogNumber } from "./LogNumber";
+import {
+  nToRadius,
+  fallingN,
+  maxProperTime,
+  coordinateTime,
+  photonNInward,
+  exactMaxProperTime,
+  exactCoordinateTime,
+  exactInterceptN,
+  exactAdvancedTime,
+  exactHorizonAdvancedTime,
+  createExactInterceptSolver,
+  tortoise,
+} from "./physics";
+import {
+  DEFAULT_INTEGRATOR_OPTIONS,
+  referenceFall,
+  referenceMaxProperTime,
+  referenceLightTravelTime,
+  referenceIntercept,
+  referenceInterceptCutoff,
+  type IntegratorOptions,
+} from "./geodesics";
+import { shadowAngle, tracedShadowAngle } from "./lensing";
+
+// How an error is measured: difference in n, decades (log₁₀ ratio), or relative
+export type ErrorUnit = 'Δn' | 'dex' | 'relative';
+
+export interface AccuracySample {
+  nFaller: number | null;    // null where the function does not depend on it
+  nObserver: number | null;
+  at: number;                // Where it was sampled (n, or coordinate time of emission)
+  reference: number;
+  model: number;
+  error: number;             // Signed; ±Infinity where one side diverges and the other does not
+}
+
+export interface FunctionAccuracy {
+  name: string;
+  description: string;
+  errorUnit: ErrorUnit;
+  samples: AccuracySample[];
+  maxAbsError: number;       // Over finite errors
+  rmsError: number;          // Over finite errors
+  divergent: number;         // Samples where only one side is finite
+}
+
+export interface AccuracyGrid {
+  nFaller: number[];
+  nObserver: number[];       // Pairs with nObserver >= nFaller are skipped
+  fallOffsets: number[];     // Sample n = nFaller + offset along the fall
+  photonOffsets: number[];   // Sample n = nObserver + offset along the inward photon
+  emitFractions: number[];   // Emission times as fractions of the last one that still catches the faller
+}
+
+export interface AccuracyReport {
+  grid: AccuracyGrid;
+  integrator: IntegratorOptions;
+  functions: FunctionAccuracy[];      // Asymptotic model vs reference
+  referenceChecks: FunctionAccuracy[]; // Reference vs closed form
+}
+
+export const DEFAULT_ACCURACY_GRID: AccuracyGrid = {
+  // Observers just outside the release point included: from farther out (the
+  // app's default 0 / -1 among them) no photon sent at t >= 0 meets the faller
+  // before the horizon, and the intercept has nothing finite to compare
+  nFaller: [-3, -2, -1, 0, 1, 2],
+  nObserver: [-10, -4, -3.1, -2.1, -1.1, -1, -0.5, 0, 0.5],
+  fallOffsets: [0.01, 0.1, 0.5, 1, 2, 4, 8, 12],
+  photonOffsets: [0.1, 0.5, 1, 2, 4, 8],
+  emitFractions: [0, 0.5, 0.9, 0.99, 0.999],
+};
+
+// Signed error; matching infinities count as exact, a lone infinity as divergent
+function errorOf(unit: ErrorUnit, reference: number, model: number): number {
+  if (!isFinite(reference) || !isFinite(model)) {
+    if (reference === model) return 0;
+    return isFinite(model) ? -Infinity : Infinity;
+  }
+  switch (unit) {
+    case 'Δn': return model - reference;
+    case 'dex': return Math.log10(model / reference);
+    case 'relative': return (model - reference) / reference;
+  }
+}
+
+class Tally {
+  readonly samples: AccuracySample[] = [];
+
+  constructor(private name: string, private description: string, private errorUnit: ErrorUnit) {}
+
+  add(nFaller: number | null, nObserver: number | null, at: number, reference: number, model: number): void {
+    const error = errorOf(this.errorUnit, reference, model);
+    this.samples.push({ nFaller, nObserver, at, reference, model, error });
+  }
+
+  summary(): FunctionAccuracy {
+    const finite = this.samples.map(s => s.error).filter(isFinite);
+    return {
+      name: this.name,
+      description: this.description,
+      errorUnit: this.errorUnit,
+      samples: this.samples,
+      maxAbsError: finite.reduce((max, e) => Math.max(max, Math.abs(e)), 0),
+      rmsError: finite.length ? Math.sqrt(finite.reduce((sum, e) => sum + e * e, 0) / finite.length) : 0,
+      divergent: this.samples.length - finite.length,
+    };
+  }
+}
+
+/**
+ * Run every comparison over the grid. Costs a few seconds: each intercept is a
+ * bisection over fresh integrations.
+ */
+export function runAccuracyReport(
+  grid: AccuracyGrid = DEFAULT_ACCURACY_GRID,
+  integrator: IntegratorOptions = DEFAULT_INTEGRATOR_OPTIONS
+): AccuracyReport {
+  const fallN = new Tally('fallingN', 'Faller n at the reference proper time', 'Δn');
+  const fallTauMax = new Tally('maxProperTime', 'Proper time from release to the horizon', 'relative');
+  const fallT = new Tally('coordinateTime', 'Coordinate time since release at n', 'dex');
+  const photon = new Tally('photonNInward', 'Inward photon n at the reference light travel time', 'Δn');
+  const intercept = new Tally('getPhotonIntersectDelta', 'Observer proper time from emission to meeting the faller', 'dex');
+
+  const checkTauMax = new Tally('referenceMaxProperTime', 'vs exactMaxProperTime', 'relative');
+  const checkT = new Tally('referenceFall.coordinateTime', 'vs exactCoordinateTime', 'relative');
+  const checkPhoton = new Tally('referenceLightTravelTime', 'vs tortoise-coordinate difference', 'relative');
+  const checkIntercept = new Tally('referenceIntercept.n', 'vs exactInterceptN', 'Δn');
+  const checkSolver = new Tally('createExactInterceptSolver', 'Table + Newton vs bisection (exactInterceptN)', 'Δn');
+  const checkShadow = new Tally('tracedShadowAngle', 'Lensed sky: traced capture edge vs shadowAngle', 'relative');
+
+  for (const nFaller of grid.nFaller) {
+    const tauMaxReference = referenceMaxProperTime(nFaller, integrator);
+    fallTauMax.add(nFaller, null, nFaller, tauMaxReference, maxProperTime(nFaller));
+    checkTauMax.add(nFaller, null, nFaller, exactMaxProperTime(nFaller), tauMaxReference);
+
+    // Only where v still resolves n: deeper, both sides just return rounding noise
+    const solver = createExactInterceptSolver(nFaller);
+    for (const offset of grid.fallOffsets) {
+      const v = exactAdvancedTime(nFaller + offset, nFaller);
+      if (exactHorizonAdvancedTime(nFaller) - v < 1e-6 * Math.max(1, Math.abs(v))) continue;
+      checkSolver.add(nFaller, null, nFaller + offset, exactInterceptN(v, nFaller), solver(v));
+    }
+
+    const fall = referenceFall(nFaller, grid.fallOffsets.map(offset => nFaller + offset), integrator);
+    for (const sample of fall) {
+      fallN.add(nFaller, null, sample.n, sample.n, fallingN(sample.tau, nFaller, maxProperTime(nFaller)));
+      fallT.add(nFaller, null, sample.n, sample.coordinateTime, coordinateTime(sample.n, nFaller).toNumber());
+      checkT.add(nFaller, null, sample.n, exactCoordinateTime(sample.n, nFaller), sample.coordinateTime);
+    }
+  }
+
+  for (const nObserver of grid.nObserver) {
+    const r = nToRadius(nObserver);
+    checkShadow.add(null, nObserver, r, shadowAngle(r), tracedShadowAngle(r));
+    for (const offset of grid.photonOffsets) {
+      const n = nObserver + offset;
+      const travel = referenceLightTravelTime(nObserver, n, integrator);
+      photon.add(null, nObserver, n, n, photonNInward(nObserver, LogNumber.ZERO, LogNumber.fromNumber(travel)));
+      checkPhoton.add(null, nObserver, n, tortoise(nObserver) - tortoise(n), travel);
+    }
+  }
+
+  for (const nFaller of grid.nFaller) {
+    for (const nObserver of grid.nObserver) {
+      if (nObserver >= nFaller) continue;
+      const engine = new BlackHoleEngine({ nFaller, nObserver });
+      const properPerCoordinate = Math.sqrt(1 - 1 / nToRadius(nObserver));
+
+      // Emissions up to the reference cutoff; later photons never meet the faller outside
+      const cutoff = referenceInterceptCutoff(nFaller, nObserver, integrator);
+      const emitTimes = cutoff > 0 ? [...new Set(grid.emitFractions.map(f => f * cutoff))] : [0];
+
+      for (const tEmit of emitTimes) {
+        const reference = referenceIntercept(tEmit, nFaller, nObserver, integrator);
+        const model = engine.getPhotonIntersectDelta(LogNumber.fromNumber(tEmit * properPerCoordinate)).toNumber();
+        intercept.add(nFaller, nObserver, tEmit, reference.travelTime * properPerCoordinate, model);
+        checkIntercept.add(nFaller, nObserver, tEmit, exactInterceptN(tEmit + tortoise(nObserver), nFaller), reference.n);
+      }
+    }
+  }
+
+  return {
+    grid,
+    integrator,
+    functions: [fallN, fallTauMax, fallT, photon, intercept].map(t => t.summary()),
+    referenceChecks: [checkTauMax, checkT, checkPhoton, checkIntercept, checkSolver, checkShadow].map(t => t.summary()),
+  };
+}
+
+function formatError(error: number): string {
+  if (!isFinite(error)) return error > 0 ? '+∞' : '-∞';
+  return error.toExponential(2);
+}
+
+function formatTable(functions: FunctionAccuracy[]): string[] {
+  return [
+    '| function | error | max abs | rms | divergent | samples |',
+    '|---|---|---|---|---|---|',
+    ...functions.map(f =>
+      `| ${f.name} | ${f.errorUnit} | ${formatError(f.maxAbsError)} | ${formatError(f.rmsError)} | ${f.divergent} | ${f.samples.length} |`
+    ),
+  ];
+}
+
+/** Markdown summary: error bars per function, then the worst case per grid point */
+export function formatAccuracyReport(report: AccuracyReport): string {
+  const lines = [
+    '## Asymptotic model vs ODE reference',
+    '',
+    ...formatTable(report.functions),
+    '',
+    'Divergent: the model goes to n = ∞ (or an infinite delay) where the reference stays finite, or vice versa.',
+    '',
+    '## Reference vs closed form (bounds the reference\'s own error)',
+    '',
+    `Dormand–Prince 5(4), rtol = ${report.integrator.rtol.toExponential(0)}`,
+    '',
+    ...formatTable(report.referenceChecks),
+  ];
+
+  for (const f of report.functions) {
+    lines.push('', `### ${f.name} (${f.errorUnit}): ${f.description}`, '', '| nFaller | nObserver | at | reference | model | error |', '|---|---|---|---|---|---|');
+    for (const s of f.samples) {
+      const grid = (x: number | null) => x === null ? '' : String(x);
+      lines.push(`| ${grid(s.nFaller)} | ${grid(s.nObserver)} | ${s.at.toPrecision(6)} | ${s.reference.toPrecision(8)} | ${s.model.toPrecision(8)} | ${formatError(s.error)} |`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,140 @@
+// catalog.ts
+
+/**
+ * Real black holes to start from: measured mass and distance, a few facts,
+ * and faller/observer positions that suit the object. Where something is
+ * known to orbit the hole (a companion star, S2 around Sgr A*), the observer
+ * is put at that distance, so the clocks compare what is really there.
+ *
+ * Masses are central values of published estimates, which for the
+ * supermassive holes are uncertain by tens of percent.
+ */
+
+export type CatalogClass = 'stellar' | 'intermediate' | 'supermassive';
+
+export const catalogClassLabels: Record<CatalogClass, string> = {
+  stellar: 'Stellar-mass',
+  intermediate: 'Intermediate-mass',
+  supermassive: 'Supermassive',
+};
+
+export interface CatalogEntry {
+  id: string;
+  name: string;
+  class: CatalogClass;
+  mass: number;          // Solar masses
+  distanceLy: number;    // Light years from Earth
+  facts: string;
+  nFaller: number;       // Suggested starting positions
+  nObserver: number;
+  observerNote: string;  // What the suggested observer position stands for
+}
+
+export const blackHoleCatalog: CatalogEntry[] = [
+  {
+    id: 'gaia-bh1',
+    name: 'Gaia BH1',
+    class: 'stellar',
+    mass: 9.6,
+    distanceLy: 1560,
+    facts: 'Nearest known black hole (2022), found from the wobble of a Sun-like star around it; dormant, no X-rays.',
+    nFaller: 0,
+    nObserver: -6.9,
+    observerNote: 'Observer at the companion star, ~1.4 AU out',
+  },
+  {
+    id: 'cygnus-x1',
+    name: 'Cygnus X-1',
+    class: 'stellar',
+    mass: 21.2,
+    distanceLy: 7200,
+    facts: 'First source widely accepted as a black hole (1971); feeds on a blue supergiant companion every 5.6 days and glows in X-rays.',
+    nFaller: 0,
+    nObserver: -5.8,
+    observerNote: 'Observer at the supergiant companion, ~0.24 AU out',
+  },
+  {
+    id: 'v404-cygni',
+    name: 'V404 Cygni',
+    class: 'stellar',
+    mass: 9,
+    distanceLy: 7800,
+    facts: 'X-ray nova whose 2015 outburst was one of the brightest ever seen; its jet wobbles because the hole spins out of line with its disk.',
+    nFaller: 0,
+    nObserver: -5.9,
+    observerNote: 'Observer at the companion star, ~0.15 AU out',
+  },
+  {
+    id: 'gw150914',
+    name: 'GW150914 remnant',
+    class: 'stellar',
+    mass: 62,
+    distanceLy: 1.3e9,
+    facts: 'Formed in the first merger seen in gravitational waves (14 September 2015) from holes of 36 and 29 M☉; 3 M☉ went out as waves. Spins at a/M ≈ 0.67.',
+    nFaller: 0,
+    nObserver: -1,
+    observerNote: 'Observer at ~11 rₛ, in the ringdown zone',
+  },
+  {
+    id: 'gw190521',
+    name: 'GW190521 remnant',
+    class: 'intermediate',
+    mass: 142,
+    distanceLy: 1.7e10,
+    facts: 'First intermediate-mass black hole observed forming (2019), from two holes of 85 and 66 M☉, themselves too heavy to come from a single star.',
+    nFaller: 0,
+    nObserver: -1,
+    observerNote: 'Observer at ~11 rₛ, in the ringdown zone',
+  },
+  {
+    id: 'sgr-a',
+    name: 'Sagittarius A*',
+    class: 'supermassive',
+    mass: 4.3e6,
+    distanceLy: 26700,
+    facts: 'The Milky Way\'s central black hole; its mass comes from 30 years of tracking the S-stars around it. Imaged by the EHT in 2022.',
+    nFaller: 0,
+    nObserver: -3.2,
+    observerNote: 'Observer at the periapsis of the star S2, ~120 AU out',
+  },
+  {
+    id: 'm87',
+    name: 'M87*',
+    class: 'supermassive',
+    mass: 6.5e9,
+    distanceLy: 5.35e7,
+    facts: 'First black hole ever imaged (EHT, 2019); its shadow is as wide as the Solar System and it drives a jet 5000 light years long.',
+    nFaller: 0,
+    nObserver: -1,
+    observerNote: 'Observer at ~11 rₛ, just outside the ring the EHT imaged',
+  },
+  {
+    id: 'ton-618',
+    name: 'TON 618',
+    class: 'supermassive',
+    mass: 6.6e10,
+    distanceLy: 1.04e10,
+    facts: 'Among the most massive black holes known, powering a quasar 140 trillion times brighter than the Sun; its horizon is 40 times wider than Neptune\'s orbit.',
+    nFaller: 0,
+    nObserver: -1,
+    observerNote: 'Observer at ~11 rₛ, inside the quasar\'s disk',
+  },
+];
+
+/** "4.3M M☉", "6.5B M☉": supermassive masses read better in millions and billions */
+export function formatSolarMasses(mass: number): string {
+  if (mass >= 1e9) return `${(mass / 1e9).toPrecision(2)}B M☉`;
+  if (mass >= 1e6) return `${(mass / 1e6).toPrecision(2)}M M☉`;
+  return `${Number(mass.toPrecision(6))} M☉`;
+}
+
+export function formatLightYears(ly: number): string {
+  if (ly >= 1e9) return `${(ly / 1e9).toPrecision(2)} billion ly`;
+  if (ly >= 1e6) return `${(ly / 1e6).toPrecision(3)} million ly`;
+  return `${ly.toLocaleString('en-US')} ly`;
+}
+
+/** The catalog entry with exactly this mass, if any */
+export function findCatalogEntry(mass: number): CatalogEntry | null {
+  return blackHoleCatalog.find(entry => entry.mass === mass) ?? null;
+}
@@ -0,0 +1,102 @@
+// comparison.ts
+
+/**
+ * Two independent setups run on one clock, to show how the effect scales:
+ * a stellar hole against a supermassive one, a near observer against a far
+ * one. Setup A drives the clock (its n_tau); B follows at whichever moment
+ * matches under the chosen synchronization.
+ *
+ * The two holes may differ in mass, so "the same time" is only meaningful in
+ * seconds: n_tau is dimensionless and matches the two falls stage by stage
+ * instead.
+ */
+
+import type { BlackHoleEngine } from "./BlackHoleEngine";
+import { LogNumber } from "./LogNumber";
+import type { Scenario } from "./scenario";
+import type { createUnits } from "./units";
+
+type Units = ReturnType<typeof createUnits>;
+
+/** What a comparison pane needs of a setup: the scenario minus clock and playback */
+export type ComparedSetup = Pick<Scenario,
+  'mass' | 'nFaller' | 'nObserver' | 'model' | 'observerKind' | 'releaseTau' | 'spin' | 'charge' | 'body'>;
+
+/**
+ * 'nTau'     - the same n_tau: both fallers equally many decades from their horizons
+ * 'faller'   - the faller's clocks read the same number of seconds since release
+ * 'observer' - the observers' clocks read the same number of seconds
+ */
+export type ClockSync = 'nTau' | 'faller' | 'observer';
+
+export const clockSyncLabels: Record<ClockSync, string> = {
+  nTau: 'Same n_τ',
+  faller: "Faller's clock (s)",
+  observer: "Observer's clock (s)",
+};
+
+type CompareEngine = Pick<BlackHoleEngine,
+  'tauMax' | 'tauToNTau' | 'nTauToTau' | 'getStateByNTau' | 'getNTauAtObserverTau' | 'getReceivedSignal' | 'getRoundTripDelta'>;
+
+export interface ComparedSide {
+  engine: CompareEngine;
+  units: Units;
+}
+
+/**
+ * B's n_tau at the moment matching A's n_tau. Infinity when B's clock has
+ * already run out there: its faller is through the horizon, or its observer's
+ * clock (falling too) never reads that long.
+ */
+export function syncedNTau(sync: ClockSync, nTau: number, a: ComparedSide, b: ComparedSide): number {
+  if (sync === 'nTau') return nTau;
+  if (sync === 'faller') {
+    const seconds = a.units.tauToSeconds(a.engine.nTauToTau(nTau));
+    return b.engine.tauToNTau(seconds / b.units.tauToSeconds(1));
+  }
+  const seconds = a.units.tauToSecondsLog(a.engine.getStateByNTau(nTau).object2.tau);
+  return b.engine.getNTauAtObserverTau(seconds.scale(1 / b.units.tauToSeconds(1))) ?? Infinity;
+}
+
+/** What a row's readings measure: seconds, metres, or a bare number */
+export type ComparisonQuantity = 'time' | 'length' | 'number';
+
+export interface ComparisonRow {
+  label: string;
+  quantity: ComparisonQuantity;
+  a: LogNumber;
+  b: LogNumber;
+  ratio: LogNumber | null;  // b / a; null where it means nothing (a is 0, both infinite)
+}
+
+function ratio(b: LogNumber, a: LogNumber): LogNumber | null {
+  if (a.isZero() || (!a.isFinite() && !b.isFinite())) return null;
+  return b.div(a);
+}
+
+/** The two setups' readings side by side, in SI so different masses compare */
+export function compareStates(a: ComparedSide, nTauA: number, b: ComparedSide, nTauB: number): ComparisonRow[] {
+  const read = (side: ComparedSide, nTau: number) => {
+    const state = side.engine.getStateByNTau(nTau);
+    const rs = side.units.rs_km * 1000;
+    return {
+      fallerTau: side.units.tauToSecondsLog(LogNumber.fromNumber(state.object1.tau)),
+      aboveHorizon: isFinite(state.object1.n) ? LogNumber.pow10(-state.object1.n).scale(rs) : LogNumber.ZERO,
+      observerTau: side.units.tauToSecondsLog(state.object2.tau),
+      redshift: side.engine.getReceivedSignal(state.object2.tau).onePlusZ,
+      roundTrip: side.units.tauToSecondsLog(side.engine.getRoundTripDelta(state.object2.tau)),
+    };
+  };
+  const ra = read(a, nTauA);
+  const rb = read(b, nTauB);
+  const row = (label: string, quantity: ComparisonQuantity, key: keyof typeof ra): ComparisonRow =>
+    ({ label, quantity, a: ra[key], b: rb[key], ratio: ratio(rb[key], ra[key]) });
+
+  return [
+    row("Faller's clock", 'time', 'fallerTau'),
+    row('Faller above horizon', 'length', 'aboveHorizon'),
+    row("Observer's clock", 'time', 'observerTau'),
+    row('Redshift 1 + z', 'number', 'redshift'),
+    row('Echo round trip', 'time', 'roundTrip'),
+  ];
+}
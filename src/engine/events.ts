@@ -0,0 +1,129 @@
+// events.ts
+
+/**
+ * Physically notable moments of a run, as the faller's n_tau at which they
+ * happen: radii the faller crosses, the observer's clock passing the
+ * timeScales milestones and the hole's evaporation lifetime, and the moment
+ * an echo off the faller starts taking longer than the universe has existed.
+ *
+ * Everything is found by bisection on n_tau over the engine's own state, so
+ * the events sit exactly where the simulation shows them, in either model.
+ */
+
+import type { BlackHoleEngine } from "./BlackHoleEngine";
+import { LogNumber } from "./LogNumber";
+import { PLANCK_LENGTH, AGE_OF_UNIVERSE, type createUnits } from "./units";
+import { timeScales } from "./timescales";
+import type { Formatter } from "./format";
+
+type Units = ReturnType<typeof createUnits>;
+
+type EventEngine = Pick<BlackHoleEngine, 'metric' | 'cfg' | 'getStateByNTau' | 'getNTauAtFallerN' | 'getRoundTripDelta'>;
+
+/**
+ * 'isco'          - faller crosses r = 3 rₛ (innermost stable circular orbit)
+ * 'photon-sphere' - faller crosses the photon sphere (1.5 rₛ for Schwarzschild)
+ * 'planck'        - faller one Planck length above the horizon
+ * 'milestone'     - observer's clock reaches a timeScales entry
+ * 'round-trip'    - an echo sent now would take longer than the age of the universe
+ * 'evaporation'   - observer's clock passes the hole's Hawking evaporation lifetime
+ */
+export type KeyEventKind = 'isco' | 'photon-sphere' | 'planck' | 'milestone' | 'round-trip' | 'evaporation';
+
+export interface KeyEvent {
+  kind: KeyEventKind;
+  nTau: number;
+  label: string;
+  detail: string;
+}
+
+// Far enough for any milestone the exact model's linear clock can still reach
+const MAX_EVENT_N_TAU = 1e300;
+
+/**
+ * Smallest n_tau at which `holds` becomes true, assuming it stays true after:
+ * doubling to bracket it, then bisection to double precision.
+ * @returns null if it still does not hold at MAX_EVENT_N_TAU
+ */
+export function firstNTau(holds: (nTau: number) => boolean): number | null {
+  if (holds(0)) return 0;
+  let high = 1;
+  while (!holds(high)) {
+    high *= 2;
+    if (high > MAX_EVENT_N_TAU) return null;
+  }
+  let low = high / 2;
+  if (high === 1) low = 0;
+  for (let i = 0; i < 64 && high - low > Number.EPSILON * high; i++) {
+    const mid = (low + high) / 2;
+    if (holds(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+}
+
+// The faller reaching n (if it starts outside n)
+function fallerCrossing(engine: EventEngine, n: number): number | null {
+  if (!(n > engine.cfg.nFaller)) return null;
+  return engine.getNTauAtFallerN(n);
+}
+
+function radiusToN(engine: EventEngine, r: number): number {
+  return -Math.log10(r - engine.metric.outerHorizon);
+}
+
+/**
+ * Every key event of this engine's run, ordered by n_tau. Events that never
+ * happen (the faller starts inside that radius, the observer's clock stops
+ * short of a milestone) are left out.
+ * @param units - For the Planck length and the milestones in seconds
+ * @param formatter - For the quantities quoted in the event text
+ */
+export function findKeyEvents(engine: EventEngine, units: Units, formatter: Formatter): KeyEvent[] {
+  const events: KeyEvent[] = [];
+  const add = (kind: KeyEventKind, nTau: number | null, label: string, detail: string) => {
+    if (nTau !== null) events.push({ kind, nTau, label, detail });
+  };
+  const schwarzschild = engine.metric.kind === 'schwarzschild';
+
+  // ISCO is a Schwarzschild radius: with spin or charge it moves, so only mark r = 3 rₛ there
+  add('isco', fallerCrossing(engine, radiusToN(engine, 3)),
+    schwarzschild ? 'ISCO' : 'r = 3 rₛ',
+    schwarzschild ? 'Faller passes r = 3 rₛ: no stable circular orbits inside' : 'Faller passes r = 3 rₛ');
+
+  const photonSphereN = engine.metric.photonSphereN;
+  if (photonSphereN !== null) {
+    add('photon-sphere', fallerCrossing(engine, photonSphereN), 'Photon sphere',
+      `Faller passes r = ${engine.metric.radius(photonSphereN).toFixed(3)} rₛ: light can orbit here`);
+  }
+
+  const planckN = Math.log10(units.rs_km * 1000 / PLANCK_LENGTH);
+  add('planck', fallerCrossing(engine, planckN), 'Planck length',
+    'Faller one Planck length above the horizon: classical spacetime stops being trustworthy');
+
+  // Milestones in seconds -> observer proper time in rₛ/c
+  // (a falling observer's clock stops at its own horizon crossing)
+  const secondsPerUnit = units.tauToSeconds(1);
+  const finalObserverTau = engine.getStateByNTau(MAX_EVENT_N_TAU).object2.tau;
+  for (const scale of timeScales) {
+    const target = LogNumber.fromNumber(scale.seconds / secondsPerUnit);
+    if (finalObserverTau.lt(target)) break;
+    add('milestone', firstNTau(nTau => engine.getStateByNTau(nTau).object2.tau.gte(target)),
+      scale.label, `Observer's clock reads ${scale.label}: ${scale.reference}`);
+  }
+
+  // The frozen star outlasts the hole itself once the observer has waited this long
+  if (finalObserverTau.gte(units.evaporationTau)) {
+    add('evaporation', firstNTau(nTau => engine.getStateByNTau(nTau).object2.tau.gte(units.evaporationTau)),
+      'Hole evaporated', `Observer's clock passes the Hawking lifetime, ${formatter.seconds(units.evaporationSeconds)}: the hole would be gone`);
+  }
+
+  const ageOfUniverse = LogNumber.fromNumber(AGE_OF_UNIVERSE / secondsPerUnit);
+  add('round-trip', firstNTau(nTau => engine.getRoundTripDelta(engine.getStateByNTau(nTau).object2.tau).gte(ageOfUniverse)),
+    'Echo > age of universe', 'A photon sent now would come back after longer than the universe has existed');
+
+  return events.sort((a, b) => a.nTau - b.nTau);
+}
@@ -0,0 +1,229 @@
+// format.ts
+
+/**
+ * Every time and length the app, the CLI and the exports show, turned into
+ * text in one place. The engine works in geometric units (rₛ = c = 1: lengths
+ * in rₛ, times in rₛ/c); a formatter converts them to the chosen unit system
+ * at the chosen precision, in log space throughout, so a 10^4000-year wait
+ * prints as readily as a nanosecond.
+ *
+ * 'si'        - seconds and metres with SI prefixes (minutes to years past a minute)
+ * 'geometric' - rₛ and rₛ/c as the engine has them: the same numbers for any mass
+ * 'planck'    - Planck lengths and Planck times
+ * 'light'     - times as in SI; lengths as the time light takes to cross them
+ *
+ * Machine output (JSON, CSV) goes through machineNumber instead: full
+ * precision in the engine's own units, whatever the display says.
+ */
+
+import { LogNumber } from "./LogNumber";
+import { PLANCK_LENGTH, PLANCK_TIME, c, type createUnits } from "./units";
+
+type Units = ReturnType<typeof createUnits>;
+
+export type UnitSystem = 'si' | 'geometric' | 'planck' | 'light';
+
+export const UNIT_SYSTEMS: readonly UnitSystem[] = ['si', 'geometric', 'planck', 'light'];
+
+export const unitSystemLabels: Record<UnitSystem, string> = {
+  si: 'SI',
+  geometric: 'Geometric (rₛ, rₛ/c)',
+  planck: 'Planck',
+  light: 'Light-travel time',
+};
+
+/**
+ * 'auto'       - plain digits between 10^-3 and 10^6, scientific outside
+ * 'scientific' - always a mantissa and an exponent
+ */
+export type Notation = 'auto' | 'scientific';
+
+export const NOTATIONS: readonly Notation[] = ['auto', 'scientific'];
+
+export interface FormatOptions {
+  system: UnitSystem;
+  precision: number;  // Significant digits, 1 to MAX_PRECISION
+  notation: Notation;
+}
+
+export const MAX_PRECISION = 12;
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = { system: 'si', precision: 3, notation: 'auto' };
+
+/**
+ * A plain number at the given significant digits. Plain digits keep at least
+ * that many, so 123456 stays whole at 3 digits rather than turning into 1.23e+5.
+ */
+export function formatNumber(value: number | LogNumber, precision: number, notation: Notation = 'auto'): string {
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return '—';
+    if (value < 0) return `-${formatNumber(-value, precision, notation)}`;
+    value = LogNumber.fromNumber(value);
+  }
+  if (!value.isFinite()) return '∞';
+  if (value.isZero()) return '0';
+  const digits = Math.min(MAX_PRECISION, Math.max(1, Math.round(precision)));
+  if (notation === 'scientific' || value.log10 < -3 || value.log10 >= 6) return value.toExponential(digits - 1);
+  const x = value.toNumber();
+  return x.toFixed(Math.max(0, digits - 1 - Math.floor(value.log10)));
+}
+
+interface Unit {
+  symbol: string;
+  size: number;  // In the ladder's base unit
+}
+
+// The largest unit the value is at least one of; below the smallest, the base unit (size 1)
+function inUnits(value: LogNumber, ladder: Unit[], options: FormatOptions, digits: number): string {
+  if (!value.isFinite()) return '∞';
+  let unit = ladder.find(candidate => candidate.size === 1)!;
+  for (const candidate of ladder) {
+    if (value.log10 >= Math.log10(candidate.size)) unit = candidate;
+  }
+  return `${formatNumber(value.scale(1 / unit.size), digits, options.notation)} ${unit.symbol}`;
+}
+
+const SECONDS: Unit[] = [
+  { symbol: 'as', size: 1e-18 },
+  { symbol: 'fs', size: 1e-15 },
+  { symbol: 'ps', size: 1e-12 },
+  { symbol: 'ns', size: 1e-9 },
+  { symbol: 'μs', size: 1e-6 },
+  { symbol: 'ms', size: 1e-3 },
+  { symbol: 's', size: 1 },
+  { symbol: 'min', size: 60 },
+  { symbol: 'h', size: 3600 },
+  { symbol: 'd', size: 86400 },
+  { symbol: 'y', size: 31536000 },
+];
+
+const METRES: Unit[] = [
+  { symbol: 'fm', size: 1e-15 },
+  { symbol: 'pm', size: 1e-12 },
+  { symbol: 'nm', size: 1e-9 },
+  { symbol: 'μm', size: 1e-6 },
+  { symbol: 'mm', size: 1e-3 },
+  { symbol: 'm', size: 1 },
+  { symbol: 'km', size: 1e3 },
+];
+
+const LIGHT_TIMES: Unit[] = SECONDS.map(unit => ({ symbol: `light-${unit.symbol}`, size: unit.size }));
+
+export interface Formatter {
+  readonly options: FormatOptions;
+  /** A time in rₛ/c */
+  time(tau: number | LogNumber, precision?: number): string;
+  /** A time already in seconds */
+  seconds(seconds: number | LogNumber, precision?: number): string;
+  /** A length in rₛ */
+  length(rs: number | LogNumber, precision?: number): string;
+  /** A length already in metres */
+  metres(metres: number | LogNumber, precision?: number): string;
+  /** A dimensionless number */
+  number(value: number | LogNumber, precision?: number): string;
+  /** 1 + z as z while it reads as one, as 1 + z (≈ z) once it is huge */
+  redshift(onePlusZ: LogNumber, precision?: number): string;
+}
+
+function toLog(value: number | LogNumber): LogNumber {
+  return typeof value === 'number' ? LogNumber.fromNumber(value) : value;
+}
+
+/**
+ * Text for a hole of the given mass in the given unit system
+ */
+export function createFormatter(units: Units, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): Formatter {
+  const secondsPerTau = units.tauToSeconds(1);
+  const metresPerRs = units.rs_km * 1000;
+  const digits = (precision?: number) => precision ?? options.precision;
+  // A number in a fixed unit; infinity is no amount of any unit, so it goes bare
+  const fixedUnit = (value: number | LogNumber, symbol: string, precision?: number) => {
+    const text = formatNumber(value, digits(precision), options.notation);
+    const finite = typeof value === 'number' ? Number.isFinite(value) : value.isFinite();
+    return finite ? `${text} ${symbol}` : text;
+  };
+
+  const seconds = (value: number | LogNumber, precision?: number): string => {
+    const s = toLog(value);
+    switch (options.system) {
+      case 'si':
+      case 'light':
+        return inUnits(s, SECONDS, options, digits(precision));
+      case 'geometric':
+        return fixedUnit(s.scale(1 / secondsPerTau), 'rₛ/c', precision);
+      case 'planck':
+        return fixedUnit(s.scale(1 / PLANCK_TIME), 'tₚ', precision);
+    }
+  };
+
+  const metres = (value: number | LogNumber, precision?: number): string => {
+    const m = toLog(value);
+    switch (options.system) {
+      case 'si':
+        return inUnits(m, METRES, options, digits(precision));
+      case 'light':
+        return inUnits(m.scale(1 / c), LIGHT_TIMES, options, digits(precision));
+      case 'geometric':
+        return fixedUnit(m.scale(1 / metresPerRs), 'rₛ', precision);
+      case 'planck':
+        return fixedUnit(m.scale(1 / PLANCK_LENGTH), 'ℓₚ', precision);
+    }
+  };
+
+  return {
+    options,
+    time: (tau, precision) => options.system === 'geometric'
+      ? fixedUnit(tau, 'rₛ/c', precision)
+      : seconds(toLog(tau).scale(secondsPerTau), precision),
+    seconds,
+    length: (rs, precision) => options.system === 'geometric'
+      ? fixedUnit(rs, 'rₛ', precision)
+      : metres(toLog(rs).scale(metresPerRs), precision),
+    metres,
+    number: (value, precision) => formatNumber(value, digits(precision), options.notation),
+    redshift: (onePlusZ, precision) => onePlusZ.log10 < 6
+      ? formatNumber(onePlusZ.toNumber() - 1, digits(precision), options.notation)
+      : formatNumber(onePlusZ, digits(precision), options.notation),
+  };
+}
+
+/**
+ * What a length is comparable to, from sub-Planck to cosmological: the
+ * scale names the distance-to-horizon readouts hang on a number
+ */
+export function lengthScaleNote(metres: LogNumber): string {
+  if (metres.isZero()) return 'at the horizon';
+  const m = metres.log10;
+  const planck = m - Math.log10(PLANCK_LENGTH);
+  if (planck < -20) return 'vastly sub-Planck';
+  if (planck < 0) return 'sub-Planck';
+  if (planck < 1) return 'quantum gravity scale';
+  if (planck < 3) return 'string theory scale';
+  if (planck < 6) return 'GUT scale';
+  if (planck < 9) return '10 trillion× smaller than a proton';
+  if (planck < 12) return '10 billion× smaller than a proton';
+  if (planck < 15) return '10,000× smaller than a proton';
+  if (planck < 18) return 'electroweak scale';
+  if (m < -18) return 'subatomic';
+  if (m < -15) return 'nuclear scale';
+  if (m < -10) return 'atomic scale';
+  if (m < -9) return 'molecular';
+  if (m < -6) return 'cellular';
+  if (m < -3) return 'microscopic';
+  if (m < 5) return '';
+  if (m < Math.log10(6.371e8)) return 'planetary';
+  if (m < Math.log10(1.496e16)) return 'solar system';
+  if (m < Math.log10(3.086e19)) return 'interstellar';
+  if (m < Math.log10(3.086e22)) return 'galactic';
+  return 'cosmological';
+}
+
+/** A number or LogNumber as JSON/CSV can hold it */
+export function machineNumber(value: number | LogNumber): number | string {
+  if (!(value instanceof LogNumber)) {
+    return isFinite(value) ? value : (value > 0 ? 'Infinity' : '-Infinity');
+  }
+  if (!value.isFinite()) return 'Infinity';
+  const x = value.toNumber();
+  return isFinite(x) && (x > 0 || value.isZero()) ? x : value.toExponential(15);
+}
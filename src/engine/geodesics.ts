@@ -0,0 +1,282 @@
+// geodesics.ts
+
+/**
+ * Reference radial Schwarzschild geodesics by direct ODE integration.
+ *
+ * Everything is integrated with n as the independent variable (rₛ = 1,
+ * r = 1 + ε, ε = 10^(-n)), so the step size stays O(1) all the way down to
+ * the horizon instead of collapsing with r - rₛ. The integrator is a generic
+ * adaptive Dormand–Prince 5(4); it knows nothing about the closed forms in
+ * physics.ts, which makes it an independent yardstick for both models.
+ */
+
+import { nToRadius } from "./physics";
+
+// ============ ADAPTIVE INTEGRATOR ============
+
+export type Derivative = (x: number, y: readonly number[]) => number[];
+
+export interface IntegratorOptions {
+  rtol: number;      // Relative tolerance per step
+  atol: number;      // Absolute tolerance per step
+  maxSteps: number;
+}
+
+export const DEFAULT_INTEGRATOR_OPTIONS: IntegratorOptions = {
+  rtol: 1e-12,
+  atol: 1e-300,
+  maxSteps: 100000,
+};
+
+// Dormand–Prince tableau; B5 and B4 are the embedded 5th- and 4th-order weights
+const A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+/**
+ * Integrate y' = f(x, y) from x0 to x1 (either direction) with step-size control
+ * @returns y(x1)
+ */
+export function integrate(
+  f: Derivative,
+  x0: number,
+  y0: readonly number[],
+  x1: number,
+  options: IntegratorOptions = DEFAULT_INTEGRATOR_OPTIONS
+): number[] {
+  const direction = Math.sign(x1 - x0);
+  if (direction === 0) return [...y0];
+
+  let x = x0;
+  let y = [...y0];
+  let h = direction * Math.min(Math.abs(x1 - x0), 1e-3);
+
+  for (let step = 0; step < options.maxSteps; step++) {
+    if ((x1 - x) * direction <= 0) return y;
+    if ((x + h - x1) * direction > 0) h = x1 - x;
+
+    const k: number[][] = [];
+    for (let stage = 0; stage < 7; stage++) {
+      const yStage = y.map((yi, i) => yi + h * A[stage].reduce((sum, a, j) => sum + a * k[j][i], 0));
+      k.push(f(x + C[stage] * h, yStage));
+    }
+    const y5 = y.map((yi, i) => yi + h * B5.reduce((sum, b, j) => sum + b * k[j][i], 0));
+    const y4 = y.map((yi, i) => yi + h * B4.reduce((sum, b, j) => sum + b * k[j][i], 0));
+
+    let error = 0;
+    for (let i = 0; i < y.length; i++) {
+      const scale = options.atol + options.rtol * Math.max(Math.abs(y[i]), Math.abs(y5[i]));
+      error = Math.max(error, Math.abs(y5[i] - y4[i]) / scale);
+    }
+
+    if (error <= 1 && y5.every(isFinite)) {
+      x += h;
+      y = y5;
+    }
+    // Standard controller: safety 0.9, growth clamped to [0.2, 5]
+    const factor = isFinite(error) ? 0.9 * Math.pow(Math.max(error, 1e-10), -1 / 5) : 0.2;
+    h *= Math.min(5, Math.max(0.2, factor));
+  }
+  throw new Error(`integrate: no convergence within ${options.maxSteps} steps`);
+}
+
+// ============ RADIAL FREE FALL (TIMELIKE) ============
+//
+// From rest at R = 1 + ε_s, with conserved energy E = √(1 - 1/R):
+//   dr/dτ = -√(1/r - 1/R),   dt/dτ = E / (1 - 1/r),   dr/dn = -ln10·ε
+// The integrand has an integrable 1/√ singularity at release; the first
+// sliver (R - r = 10^-6·ε_s) is taken from its series instead, whose dropped
+// terms are O(10^-12) relative.
+
+const SEED_FRACTION = 1e-6;
+
+// Past this many decades beyond the deepest sample the remaining proper time is ~ε
+const TAIL_DECADES = 20;
+
+export interface FallSample {
+  n: number;
+  tau: number;               // Proper time since release
+  tauRemaining: number;      // Proper time still to go to the horizon (no cancellation)
+  coordinateTime: number;    // Schwarzschild t since release
+}
+
+// 1/r - 1/R = (ε_s - ε)/(rR), with ε_s - ε = -ε_s·expm1((n_s - n)·ln10) exact even right after release
+function fallGap(n: number, nStart: number): number {
+  const offsetDifference = -Math.pow(10, -nStart) * Math.expm1((nStart - n) * Math.LN10);
+  return offsetDifference / (nToRadius(n) * nToRadius(nStart));
+}
+
+// d[τ, t]/dn along the fall
+function fallDerivative(nStart: number): Derivative {
+  const energy = Math.sqrt(1 - 1 / nToRadius(nStart));
+  return (n) => {
+    const epsilon = Math.pow(10, -n);
+    const root = Math.sqrt(fallGap(n, nStart));
+    return [Math.LN10 * epsilon / root, energy * (1 + epsilon) * Math.LN10 / root];
+  };
+}
+
+// [n, τ, t] just after release, with x = R - r:
+//   τ = 2R√x - x^{3/2}/3 + O(x^{5/2}),   t = τ/E + (2/3)x^{3/2}/(E³R) + O(x^{5/2})
+function fallSeed(nStart: number): [number, number, number] {
+  const R = nToRadius(nStart);
+  const energy = Math.sqrt(1 - 1 / R);
+  const x = SEED_FRACTION * Math.pow(10, -nStart);
+  const xToThreeHalves = x * Math.sqrt(x);
+  const tau = 2 * R * Math.sqrt(x) - xToThreeHalves / 3;
+  const t = tau / energy + 2 / 3 * xToThreeHalves / (energy * energy * energy * R);
+  return [nStart - Math.log10(1 - SEED_FRACTION), tau, t];
+}
+
+/**
+ * Integrate the fall from rest at nStart and sample it at the given n values
+ * @param nStart - Release point
+ * @param nSamples - Points to sample, each > nStart
+ */
+export function referenceFall(nStart: number, nSamples: readonly number[], options = DEFAULT_INTEGRATOR_OPTIONS): FallSample[] {
+  const derivative = fallDerivative(nStart);
+  const [nSeed, tauSeed, tSeed] = fallSeed(nStart);
+  const sorted = [...nSamples].sort((a, b) => a - b);
+
+  // Forward for τ and t since release
+  const forward = new Map<number, number[]>();
+  let n = nSeed;
+  let y = [tauSeed, tSeed];
+  for (const sample of sorted) {
+    y = integrate(derivative, n, y, sample, options);
+    n = sample;
+    forward.set(sample, y);
+  }
+
+  // Backward from deep inside for the remaining proper time, which the forward
+  // pass could only give as a difference of two nearly equal numbers. Beyond
+  // nDeep, 1/r - 1/R ≈ 1 - 1/R and ∫ ln10·ε dn / √(1 - 1/R) = ε / √(1 - 1/R).
+  const tauDerivative: Derivative = (nn, yy) => [-derivative(nn, yy)[0]];
+  const nDeep = Math.max(nStart, ...sorted) + TAIL_DECADES;
+  const remaining = new Map<number, number>();
+  n = nDeep;
+  let tauRemaining = [Math.pow(10, -nDeep) / Math.sqrt(fallGap(Infinity, nStart))];
+  for (const sample of [...sorted].reverse()) {
+    tauRemaining = integrate(tauDerivative, n, tauRemaining, sample, options);
+    n = sample;
+    remaining.set(sample, tauRemaining[0]);
+  }
+
+  return nSamples.map(sample => ({
+    n: sample,
+    tau: forward.get(sample)![0],
+    tauRemaining: remaining.get(sample)!,
+    coordinateTime: forward.get(sample)![1],
+  }));
+}
+
+/** Proper time from rest at nStart to the horizon */
+export function referenceMaxProperTime(nStart: number, options = DEFAULT_INTEGRATOR_OPTIONS): number {
+  const [nSeed, tauSeed] = fallSeed(nStart);
+  return tauSeed + referenceFall(nStart, [nSeed], options)[0].tauRemaining;
+}
+
+// ============ RADIAL LIGHT (NULL) ============
+//
+// Ingoing: dr/dt = -(1 - 1/r), so dt/dn = ln10·ε / (1 - 1/r) = ln10·(1 + ε).
+// Outgoing light has the same |dt/dn|.
+
+function nullDerivative(): Derivative {
+  return (n) => [Math.LN10 * (1 + Math.pow(10, -n))];
+}
+
+/** Coordinate time for radial light between nFrom and nTo (either direction) */
+export function referenceLightTravelTime(nFrom: number, nTo: number, options = DEFAULT_INTEGRATOR_OPTIONS): number {
+  return Math.abs(integrate(nullDerivative(), nFrom, [0], nTo, options)[0]);
+}
+
+// ============ INTERCEPT ============
+//
+// A photon sent inward from nObserver at coordinate time tEmit meets the faller
+// where t_faller(n) - t_light(nObserver → n) = tEmit. The left side is the
+// integral of (dt_faller/dn - dt_light/dn) > 0, which tends to 0 like ε, so it
+// is integrated as one quantity and approaches a finite limit at the horizon:
+// a photon sent later than that never catches the faller outside.
+
+export interface InterceptSample {
+  tEmit: number;
+  n: number;                 // Faller's n at the meeting (Infinity if never outside)
+  travelTime: number;        // Coordinate time from emission to the meeting (Infinity if never)
+}
+
+// Decades past nStart searched for the meeting before declaring "at the horizon"
+const INTERCEPT_DECADES = 40;
+
+// d/dn of that lead. E/√gap - 1 = (E² - gap) / (√gap(E + √gap)) and E² - gap = 1 - 1/r
+// exactly, so the difference of the two nearly equal rates is never formed.
+function leadDerivative(nStart: number): Derivative {
+  const energy = Math.sqrt(1 - 1 / nToRadius(nStart));
+  return (n) => {
+    const root = Math.sqrt(fallGap(n, nStart));
+    return [Math.LN10 * Math.pow(10, -n) / (root * (energy + root))];
+  };
+}
+
+/**
+ * Lead of the faller over the photon at n: t_faller(n) - t_light(nObserver → n).
+ * The photon's tEmit must not exceed this for the two to meet at n.
+ */
+function lead(n: number, nStart: number, nObserver: number, options: IntegratorOptions): number {
+  const [nSeed, , tSeed] = fallSeed(nStart);
+  const lightToSeed = referenceLightTravelTime(nObserver, nSeed, options);
+  return integrate(leadDerivative(nStart), nSeed, [tSeed - lightToSeed], n, options)[0];
+}
+
+/**
+ * Where an ingoing photon sent from the observer at tEmit meets the faller
+ * @param tEmit - Coordinate time of emission (t = 0 at release)
+ */
+export function referenceIntercept(tEmit: number, nStart: number, nObserver: number, options = DEFAULT_INTEGRATOR_OPTIONS): InterceptSample {
+  const never = { tEmit, n: Infinity, travelTime: Infinity };
+  const derivative = leadDerivative(nStart);
+  const [nSeed] = fallSeed(nStart);
+
+  // March one decade at a time to bracket the meeting, then bisect inside it
+  let nLow = nSeed;
+  let leadLow = lead(nSeed, nStart, nObserver, options);
+  if (leadLow >= tEmit) nLow = nStart;
+  else {
+    let bracketed = false;
+    for (let decade = 1; decade <= INTERCEPT_DECADES; decade++) {
+      const nHigh = nStart + decade;
+      const leadHigh = integrate(derivative, nLow, [leadLow], nHigh, options)[0];
+      if (leadHigh >= tEmit) {
+        bracketed = true;
+        let high = nHigh;
+        for (let i = 0; i < 200 && high - nLow > 1e-14 * Math.max(1, Math.abs(high)); i++) {
+          const mid = (nLow + high) / 2;
+          const leadMid = integrate(derivative, nLow, [leadLow], mid, options)[0];
+          if (leadMid >= tEmit) high = mid;
+          else { nLow = mid; leadLow = leadMid; }
+        }
+        nLow = (nLow + high) / 2;
+        break;
+      }
+      nLow = nHigh;
+      leadLow = leadHigh;
+    }
+    if (!bracketed) return never;
+  }
+
+  // The photon's own travel time, rather than t_meet - tEmit, keeps full precision for late emissions
+  return { tEmit, n: nLow, travelTime: referenceLightTravelTime(nObserver, nLow, options) };
+}
+
+/** The latest tEmit whose photon still meets the faller outside the horizon */
+export function referenceInterceptCutoff(nStart: number, nObserver: number, options = DEFAULT_INTEGRATOR_OPTIONS): number {
+  return lead(nStart + INTERCEPT_DECADES, nStart, nObserver, options);
+}
@@ -0,0 +1,238 @@
+// lensing.ts
+
+/**
+ * The sky as a static observer at radius r sees it: a background starfield
+ * bent around a Schwarzschild hole (rₛ = 1), ray-traced on the CPU.
+ *
+ * Rays are traced backwards from the observer along null geodesics, whose
+ * orbit equation in u = 1/r is d²u/dφ² = -u + (3/2)u². The picture is
+ * symmetric about the observer-hole axis, so a ray depends only on its angle
+ * α from the direction of the hole: each α is integrated once into a table of
+ * where on the sky it ends up (or that it falls in), and every pixel at that
+ * α reads the table. Rays grazing the photon sphere wind around it before
+ * escaping, which piles up thin images of the whole sky: the photon ring at
+ * the shadow's edge. A star straight behind the hole becomes the Einstein ring.
+ *
+ * Frame: z points from the hole to the observer; a ray that escapes at polar
+ * angle φ∞ (the orbit's angle round the hole at infinity) shows the star at
+ * that angle from z, in the plane of the ray.
+ */
+
+import { nToRadius } from "./physics";
+
+// Critical impact parameter (rₛ = 1): the photon sphere's 3√3·M
+const CRITICAL_IMPACT = 3 * Math.sqrt(3) / 2;
+
+/**
+ * Angular radius of the shadow seen from radius r, measured from the
+ * direction of the hole. Past a right angle inside the photon sphere, where
+ * the shadow fills more than half the sky.
+ */
+export function shadowAngle(r: number): number {
+  const sine = Math.min(1, CRITICAL_IMPACT * Math.sqrt(1 - 1 / r) / r);
+  return r >= 1.5 ? Math.asin(sine) : Math.PI - Math.asin(sine);
+}
+
+const PHI_STEP = 0.004;        // rad per RK4 step; the orbit is smooth in φ at any r
+const MAX_WINDING = 6 * Math.PI;  // Past this a ray is as good as captured by the photon sphere
+
+/**
+ * Where a ray sent back from radius r at angle alpha from the hole escapes to
+ * @returns φ∞ in radians, or null if it falls in
+ */
+export function escapeAngle(r: number, alpha: number): number | null {
+  if (alpha <= 0) return null;
+  let u = 1 / r;
+  let w = u * Math.sqrt(1 - u) / Math.tan(alpha);  // du/dφ from sin α = b√(1 - 1/r)/r: positive while the ray heads in
+  let phi = 0;
+  const accel = (x: number) => -x + 1.5 * x * x;
+
+  while (phi < MAX_WINDING) {
+    const k1u = w, k1w = accel(u);
+    const k2u = w + 0.5 * PHI_STEP * k1w, k2w = accel(u + 0.5 * PHI_STEP * k1u);
+    const k3u = w + 0.5 * PHI_STEP * k2w, k3w = accel(u + 0.5 * PHI_STEP * k2u);
+    const k4u = w + PHI_STEP * k3w, k4w = accel(u + PHI_STEP * k3u);
+    const next = u + PHI_STEP / 6 * (k1u + 2 * k2u + 2 * k3u + k4u);
+    w += PHI_STEP / 6 * (k1w + 2 * k2w + 2 * k3w + k4w);
+
+    if (next >= 1) return null;  // Through the horizon
+    if (next <= 0) return phi + PHI_STEP * u / (u - next);  // Out to infinity, between the two steps
+    u = next;
+    phi += PHI_STEP;
+  }
+  return null;
+}
+
+/**
+ * The shadow's edge as escapeAngle traces it, by bisection between a ray that
+ * falls in and one that escapes. Should match shadowAngle to integration
+ * accuracy; the accuracy report checks that it does.
+ */
+export function tracedShadowAngle(r: number): number {
+  let captured = 0;
+  let escapes = Math.PI;
+  for (let i = 0; i < 50; i++) {
+    const alpha = (captured + escapes) / 2;
+    if (escapeAngle(r, alpha) === null) captured = alpha;
+    else escapes = alpha;
+  }
+  return escapes;
+}
+
+// ============ STARFIELD ============
+
+/**
+ * Procedural sky on a cube map (even texel density everywhere, unlike an
+ * equirectangular map, whose pole would sit right behind the hole)
+ */
+export interface Starfield {
+  faceSize: number;
+  rgb: Float32Array;  // 6 faces × faceSize² texels × 3 channels, 0..1
+}
+
+type Vec3 = [number, number, number];
+
+// Face index and texel for a unit direction
+function cubeTexel(d: Vec3, faceSize: number): number {
+  const [x, y, z] = d;
+  const ax = Math.abs(x), ay = Math.abs(y), az = Math.abs(z);
+  let face: number, s: number, t: number;
+  if (ax >= ay && ax >= az) {
+    face = x > 0 ? 0 : 1; s = y / ax; t = z / ax;
+  } else if (ay >= az) {
+    face = y > 0 ? 2 : 3; s = x / ay; t = z / ay;
+  } else {
+    face = z > 0 ? 4 : 5; s = x / az; t = y / az;
+  }
+  const i = Math.min(faceSize - 1, Math.floor((s + 1) / 2 * faceSize));
+  const j = Math.min(faceSize - 1, Math.floor((t + 1) / 2 * faceSize));
+  return (face * faceSize + j) * faceSize + i;
+}
+
+// Deterministic PRNG (mulberry32), so every run sees the same sky
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Colours from hot blue-white to cool orange
+const STAR_COLORS: Vec3[] = [[0.7, 0.8, 1], [0.9, 0.93, 1], [1, 1, 1], [1, 0.95, 0.8], [1, 0.8, 0.6]];
+
+// A galactic band tilted across the line of sight, so it runs behind the hole
+const GALACTIC_POLE: Vec3 = [0.5, 0.25, Math.sqrt(1 - 0.25 - 0.0625)];
+
+export function createStarfield(faceSize = 256, stars = 20000, seed = 1): Starfield {
+  const rgb = new Float32Array(6 * faceSize * faceSize * 3);
+
+  // Faint glow of the band: the texel centre's direction against the galactic pole
+  for (let face = 0; face < 6; face++) {
+    for (let j = 0; j < faceSize; j++) {
+      for (let i = 0; i < faceSize; i++) {
+        const s = (i + 0.5) / faceSize * 2 - 1;
+        const t = (j + 0.5) / faceSize * 2 - 1;
+        const sign = face % 2 === 0 ? 1 : -1;
+        const axis = Math.floor(face / 2);
+        const d: Vec3 = axis === 0 ? [sign, s, t] : axis === 1 ? [s, sign, t] : [s, t, sign];
+        const length = Math.hypot(...d);
+        const latitude = (d[0] * GALACTIC_POLE[0] + d[1] * GALACTIC_POLE[1] + d[2] * GALACTIC_POLE[2]) / length;
+        const glow = 0.12 * Math.exp(-(latitude * latitude) / 0.015);
+        const texel = ((face * faceSize + j) * faceSize + i) * 3;
+        rgb[texel] = glow * 0.9;
+        rgb[texel + 1] = glow * 0.85;
+        rgb[texel + 2] = glow;
+      }
+    }
+  }
+
+  // Stars, uniform on the sphere (a third more crowded into the band), brightness by a power law
+  const next = random(seed);
+  for (let k = 0; k < stars; k++) {
+    let d: Vec3;
+    do {
+      const z = next() * 2 - 1;
+      const angle = next() * 2 * Math.PI;
+      const rho = Math.sqrt(1 - z * z);
+      d = [rho * Math.cos(angle), rho * Math.sin(angle), z];
+    } while (k % 3 === 0 && Math.abs(d[0] * GALACTIC_POLE[0] + d[1] * GALACTIC_POLE[1] + d[2] * GALACTIC_POLE[2]) > 0.2);
+    const brightness = Math.min(1, 0.15 / Math.pow(next() + 0.01, 1.2));
+    const color = STAR_COLORS[Math.floor(next() * STAR_COLORS.length)];
+    const texel = cubeTexel(d, faceSize) * 3;
+    for (let c = 0; c < 3; c++) rgb[texel + c] = Math.min(1, rgb[texel + c] + brightness * color[c]);
+  }
+
+  return { faceSize, rgb };
+}
+
+let sharedStarfield: Starfield | null = null;
+
+/** The one sky every view shares, made on first use (~0.2 s) */
+export function defaultStarfield(): Starfield {
+  sharedStarfield ??= createStarfield();
+  return sharedStarfield;
+}
+
+// ============ RENDERING ============
+
+export interface LensedSky {
+  size: number;              // Pixels per side
+  fieldOfView: number;       // Half-angle from the centre to the edge of the disc (rad)
+  shadowAngle: number;       // rad
+  rgba: Uint8ClampedArray;   // size² pixels; transparent outside the disc
+}
+
+const TABLE_SAMPLES = 1024;
+
+/**
+ * What a hovering observer at n sees looking straight at the hole: an
+ * equidistant fisheye (pixel distance from the centre ∝ angle from the hole)
+ * framing the shadow at about a third of the disc, so a distant observer's
+ * pinprick shadow gets as many pixels as a close one's.
+ */
+export function renderLensedSky(nObserver: number, size: number, starfield: Starfield): LensedSky {
+  const r = nToRadius(nObserver);
+  const shadow = shadowAngle(r);
+  const fieldOfView = Math.min(Math.PI, 3 * shadow);
+
+  // φ∞ by angle from the hole, NaN where the ray falls in
+  const table = new Float64Array(TABLE_SAMPLES + 1);
+  for (let k = 0; k <= TABLE_SAMPLES; k++) {
+    table[k] = escapeAngle(r, k / TABLE_SAMPLES * fieldOfView) ?? NaN;
+  }
+
+  const rgba = new Uint8ClampedArray(size * size * 4);
+  const half = size / 2;
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      const x = (px + 0.5 - half) / half;
+      const y = (py + 0.5 - half) / half;
+      const rho = Math.hypot(x, y);
+      if (rho > 1) continue;
+      const pixel = (py * size + px) * 4;
+      rgba[pixel + 3] = 255;
+
+      // Between two samples, interpolate only if both escaped: the shadow's edge stays sharp
+      const position = rho * TABLE_SAMPLES;
+      const k = Math.min(TABLE_SAMPLES - 1, Math.floor(position));
+      const fraction = position - k;
+      const nearest = table[fraction < 0.5 ? k : k + 1];
+      if (Number.isNaN(nearest)) continue;
+      const phi = Number.isNaN(table[k]) || Number.isNaN(table[k + 1])
+        ? nearest
+        : table[k] + (table[k + 1] - table[k]) * fraction;
+
+      // Star direction: φ∞ from z, in the plane through the pixel's azimuth
+      const azimuth = Math.atan2(y, x);
+      const direction: Vec3 = [Math.sin(phi) * Math.cos(azimuth), Math.sin(phi) * Math.sin(azimuth), Math.cos(phi)];
+      const texel = cubeTexel(direction, starfield.faceSize) * 3;
+      rgba[pixel] = 255 * starfield.rgb[texel];
+      rgba[pixel + 1] = 255 * starfield.rgb[texel + 1];
+      rgba[pixel + 2] = 255 * starfield.rgb[texel + 2];
+    }
+  }
+
+  return { size, fieldOfView, shadowAngle: shadow, rgba };
+}
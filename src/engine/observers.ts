@@ -0,0 +1,226 @@
+// observers.ts
+
+import {
+  coordinateTime, fallingN, fallingProperTime, fallingNAtCoordinateTime, maxProperTime,
+  photonN, photonOutwardDelta,
+} from "./physics";
+import { LogNumber } from "./LogNumber";
+import type { PhysicsModel } from "./BlackHoleEngine";
+import type { Metric, RadialFall } from "./metrics";
+
+/**
+ * 'hovering' - static at nObserver, rockets firing (the original observer)
+ * 'faller'   - hovers at nObserver, then drops from rest after releaseTau
+ * 'orbiter'  - circular geodesic at nObserver
+ */
+export type ObserverKind = 'hovering' | 'faller' | 'orbiter';
+
+export const observerKindLabels: Record<ObserverKind, string> = {
+  hovering: 'Hovering (static)',
+  faller: 'Second faller (delayed drop)',
+  orbiter: 'Circular orbit',
+};
+
+export interface ObserverConfig {
+  kind: ObserverKind;
+  releaseTau?: number; // 'faller' only: observer proper time spent hovering before the drop (rₛ/c)
+}
+
+/**
+ * The observer's worldline, labelled by the metric's t (t = 0 at the faller's
+ * release). Everything the engine needs to exchange light with it: where it is,
+ * how its clock runs, how its motion shifts received light, and when outgoing
+ * light catches up with it.
+ */
+export interface ObserverWorldline {
+  readonly kind: ObserverKind;
+  nAt(t: LogNumber): number;
+  properTimeAt(t: LogNumber): LogNumber;
+  /** Inverse of properTimeAt (INFINITY once the observer has crossed the horizon) */
+  coordinateTimeAt(tau: LogNumber): LogNumber;
+  /** Observer proper time over [t, t + dt], without going through huge absolute times */
+  properTimeElapsed(t: LogNumber, dt: LogNumber): LogNumber;
+  /** ν_observed / ν_static for outward radial light received at t */
+  blueshiftAt(t: LogNumber): LogNumber;
+  /** Coordinate time for light leaving nEmit outward at tEmit to reach the observer */
+  outgoingArrivalDelta(nEmit: number, tEmit: LogNumber): LogNumber;
+}
+
+// Outward light from nEmit to a fixed nTarget
+function outwardTravelTime(nEmit: number, nTarget: number, model: PhysicsModel, metric: Metric): LogNumber {
+  if (model === 'exact') return LogNumber.fromNumber(metric.lightTravelTime(nEmit, nTarget));
+  return photonOutwardDelta(nEmit, nTarget);
+}
+
+/**
+ * Fixed radius, clock running at a constant rate dτ/dt
+ */
+class StaticObserver implements ObserverWorldline {
+  constructor(
+    readonly kind: ObserverKind,
+    private nObserver: number,
+    private model: PhysicsModel,
+    private metric: Metric,
+    private rate: number,
+    private blueshift: LogNumber,
+  ) {}
+
+  nAt(): number {
+    return this.nObserver;
+  }
+
+  properTimeAt(t: LogNumber): LogNumber {
+    return t.scale(this.rate);
+  }
+
+  coordinateTimeAt(tau: LogNumber): LogNumber {
+    return tau.scale(1 / this.rate);
+  }
+
+  properTimeElapsed(_t: LogNumber, dt: LogNumber): LogNumber {
+    return dt.scale(this.rate);
+  }
+
+  blueshiftAt(): LogNumber {
+    return this.blueshift;
+  }
+
+  outgoingArrivalDelta(nEmit: number): LogNumber {
+    return outwardTravelTime(nEmit, this.nObserver, this.model, this.metric);
+  }
+}
+
+/**
+ * Hovers at nObserver until its clock reads releaseTau, then falls from rest
+ * along the same kind of geodesic as the faller (same model).
+ */
+class FallingObserver implements ObserverWorldline {
+  readonly kind = 'faller';
+  private readonly hoverRate: number;
+  private readonly tRelease: LogNumber;
+  private readonly tauMax: number;
+  private readonly fall: RadialFall;
+
+  constructor(private nObserver: number, private releaseTau: number, private model: PhysicsModel, private metric: Metric) {
+    this.hoverRate = metric.stationaryClockRate(nObserver);
+    this.tRelease = LogNumber.fromNumber(releaseTau / this.hoverRate);
+    this.fall = metric.fall(nObserver);
+    this.tauMax = model === 'exact' ? this.fall.maxProperTime : maxProperTime(nObserver);
+  }
+
+  // Coordinate time since the drop -> n, and back
+  private fallN(dt: LogNumber): number {
+    return this.model === 'exact'
+      ? this.fall.nAtCoordinateTime(dt.toNumber())
+      : fallingNAtCoordinateTime(dt, this.nObserver);
+  }
+
+  private fallCoordinateTime(n: number): LogNumber {
+    return this.model === 'exact'
+      ? LogNumber.fromNumber(this.fall.coordinateTime(n))
+      : coordinateTime(n, this.nObserver);
+  }
+
+  private fallProperTime(n: number): number {
+    return this.model === 'exact'
+      ? this.fall.properTimeAtN(n)
+      : fallingProperTime(n, this.nObserver, this.tauMax);
+  }
+
+  nAt(t: LogNumber): number {
+    if (!t.isFinite()) return Infinity;
+    if (!this.tRelease.lt(t)) return this.nObserver;
+    return this.fallN(t.sub(this.tRelease));
+  }
+
+  properTimeAt(t: LogNumber): LogNumber {
+    if (!this.tRelease.lt(t)) return t.scale(this.hoverRate);
+    return LogNumber.fromNumber(this.releaseTau + this.fallProperTime(this.nAt(t)));
+  }
+
+  coordinateTimeAt(tau: LogNumber): LogNumber {
+    const tauFalling = tau.toNumber() - this.releaseTau;
+    if (tauFalling <= 0) return tau.scale(1 / this.hoverRate);
+    if (tauFalling >= this.tauMax) return LogNumber.INFINITY;
+    const n = this.model === 'exact'
+      ? this.fall.nByNTau(-Math.log10(1 - tauFalling / this.tauMax))
+      : fallingN(tauFalling, this.nObserver, this.tauMax);
+    return this.tRelease.add(this.fallCoordinateTime(n));
+  }
+
+  properTimeElapsed(t: LogNumber, dt: LogNumber): LogNumber {
+    return this.properTimeAt(t.add(dt)).sub(this.properTimeAt(t));
+  }
+
+  // Falling inward into outward light: γ(1 + v) of the drop from rest, as for the faller
+  blueshiftAt(t: LogNumber): LogNumber {
+    if (!this.tRelease.lt(t)) return LogNumber.fromNumber(1);
+    return this.metric.dopplerRedshift(this.nAt(t), this.nObserver);
+  }
+
+  outgoingArrivalDelta(nEmit: number, tEmit: LogNumber): LogNumber {
+    if (!tEmit.isFinite() || !isFinite(nEmit)) return LogNumber.INFINITY;
+    const nNow = this.nAt(tEmit);
+    if (nEmit <= nNow) return LogNumber.ZERO;
+
+    // The light reaches the observer's current radius within this time, and the
+    // observer only moves inward to meet it sooner
+    const dtMax = outwardTravelTime(nEmit, nNow, this.model, this.metric);
+    if (this.model === 'exact') return this.exactArrivalDelta(nEmit, tEmit.toNumber(), dtMax.toNumber());
+
+    let dtLow = LogNumber.ZERO;
+    let dtHigh = dtMax;
+    for (let i = 0; i < 60; i++) {
+      const dtMid = dtLow.add(dtHigh).scale(0.5);
+      // Photon position from its own travel time: tEmit may dwarf dtMid
+      if (photonN(nEmit, LogNumber.ZERO, dtMid) <= this.nAt(tEmit.add(dtMid))) {
+        dtHigh = dtMid;
+      } else {
+        dtLow = dtMid;
+      }
+    }
+    return dtHigh;
+  }
+
+  // Outgoing light keeps u = t - r* fixed; u along the drop grows with n, so bisect on n
+  private exactArrivalDelta(nEmit: number, tEmit: number, dtMax: number): LogNumber {
+    const u = tEmit - this.metric.tortoise(nEmit);
+    const tRelease = this.tRelease.toNumber();
+    const retardedAt = (n: number) => tRelease + this.fall.coordinateTime(n) - this.metric.tortoise(n);
+
+    let nLow = this.nAt(LogNumber.fromNumber(tEmit));
+    let nHigh = nEmit;
+    if (retardedAt(nLow) >= u) return LogNumber.fromNumber(dtMax);  // Arrives before the drop
+    for (let i = 0; i < 100 && nHigh - nLow > 1e-15 * Math.max(1, Math.abs(nHigh)); i++) {
+      const nMid = (nLow + nHigh) / 2;
+      if (retardedAt(nMid) < u) {
+        nLow = nMid;
+      } else {
+        nHigh = nMid;
+      }
+    }
+    const delta = tRelease + this.fall.coordinateTime(nHigh) - tEmit;
+    return LogNumber.fromNumber(Math.min(Math.max(delta, 0), dtMax));
+  }
+}
+
+/**
+ * Build the observer's worldline
+ * @param config - Observer kind; defaults to hovering
+ * @param nObserver - Hover radius, drop point or orbit radius
+ */
+export function createObserverWorldline(config: ObserverConfig | undefined, nObserver: number, model: PhysicsModel, metric: Metric): ObserverWorldline {
+  switch (config?.kind ?? 'hovering') {
+    case 'hovering':
+      return new StaticObserver('hovering', nObserver, model, metric, metric.stationaryClockRate(nObserver), LogNumber.fromNumber(1));
+    case 'orbiter': {
+      // Circular geodesics need spherical symmetry (none on the Kerr axis) and r outside the photon sphere
+      const orbit = metric.circularOrbit(nObserver);
+      if (!orbit)
+        throw new Error(`No circular orbit at n = ${nObserver} in ${metric.label}`);
+      return new StaticObserver('orbiter', nObserver, model, metric, orbit.clockRate, LogNumber.fromNumber(orbit.lorentzFactor));
+    }
+    case 'faller':
+      return new FallingObserver(nObserver, Math.max(0, config?.releaseTau ?? 0), model, metric);
+  }
+}
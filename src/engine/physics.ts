@@ -6,9 +6,18 @@
  * Method: Exact GR scaling laws + asymptotic approximations of geodesics.
  * Provides correct qualitative behavior (time dilation, photon delays,
  * horizon crossing) with O(1) per-frame cost, sacrificing full ODE
- * integration accuracy for visualization fidelity and performance.
+ * integration accuracy for visualization fidelity and performance. How much
+ * is sacrificed is measured in accuracy.ts against the ODE reference in
+ * geodesics.ts (`cli.ts accuracy` prints the error table).
+ *
+ * The EXACT section below provides the closed-form alternative (cycloid
+ * free fall, tortoise-coordinate null geodesics) for when the numbers matter.
+ * metrics.ts wraps it as the Schwarzschild case of the Metric interface, next
+ * to Kerr and Reissner–Nordström.
  */
 
+import { LogNumber } from "./LogNumber";
+
 // ============ COORDINATE CONVERSION ============
 
 export function nToRadius(n: number): number {
@@ -29,6 +38,13 @@ export function fallingN(tau: number, nStart: number, tauMax: number): number {
   return nStart - Math.log10(1 - tau / tauMax);
 }
 
+// Inverse of fallingN: proper time at which the faller reaches n
+export function fallingProperTime(n: number, nStart: number, tauMax: number): number {
+  if (n <= nStart) return 0;
+  if (!isFinite(n)) return tauMax;
+  return tauMax * (1 - Math.pow(10, nStart - n));
+}
+
 // τmax scales with initial distance
 export function maxProperTime(nStart: number): number {
   const rStart = nToRadius(nStart);
@@ -37,36 +53,104 @@ export function maxProperTime(nStart: number): number {
 
 // ============ COORDINATE TIME ============
 
-// Diverges as n → ∞
-export function coordinateTime(n: number, nStart: number): number {
-  if (!isFinite(n)) return Infinity;
-  return (Math.pow(10, n) - Math.pow(10, nStart));
+// Diverges as n → ∞. Kept in log space: 10^n overflows past n ≈ 308.
+export function coordinateTime(n: number, nStart: number): LogNumber {
+  if (!isFinite(n)) return LogNumber.INFINITY;
+  return LogNumber.pow10(n).sub(LogNumber.pow10(nStart));
+}
+
+// Inverse of coordinateTime: n = log10(t + 10^nStart)
+export function fallingNAtCoordinateTime(t: LogNumber, nStart: number): number {
+  if (t.isZero()) return nStart;
+  return t.add(LogNumber.pow10(nStart)).log10;
 }
 
 // ============ OBJECT 2 (STATIONARY) ============
 
-export function stationaryProperTime(t: number, nObserver: number): number {
-  if (!isFinite(t)) return Infinity;
-  const rObserver = nToRadius(nObserver);
-  return t * Math.sqrt(1 - 1 / rObserver);
+// dτ/dt of a static observer: √(1 - rₛ/r)
+export function stationaryClockRate(nObserver: number): number {
+  return Math.sqrt(1 - 1 / nToRadius(nObserver));
+}
+
+export function stationaryProperTime(t: LogNumber, nObserver: number): LogNumber {
+  return t.scale(stationaryClockRate(nObserver));
+}
+
+// ============ OBJECT 2 (CIRCULAR ORBIT) ============
+//
+// Circular geodesic at r (rₛ = 1): dτ/dt = √(1 - 3/(2r)), which needs r > 3/2
+// (the photon sphere); orbits inside r = 3 (the ISCO) exist but are unstable.
+// Relative to a static observer at the same r it moves at v² = 1/(2(r - 1)).
+
+export const PHOTON_SPHERE_N = -Math.log10(0.5);
+export const ISCO_N = -Math.log10(2);
+
+export function orbitingClockRate(nObserver: number): number {
+  const epsilon = Math.pow(10, -nObserver);
+  return Math.sqrt((epsilon - 0.5) / (1 + epsilon));
+}
+
+export function orbitingProperTime(t: LogNumber, nObserver: number): LogNumber {
+  return t.scale(orbitingClockRate(nObserver));
+}
+
+// γ of the orbital motion: light arriving radially (perpendicular to the motion
+// in the static frame) is blueshifted by exactly this factor
+export function orbitalLorentzFactor(nObserver: number): number {
+  const epsilon = Math.pow(10, -nObserver);
+  return Math.sqrt(2 * epsilon / (2 * epsilon - 1));
 }
 
 // ============ PHOTONS ============
 
 // Outward photon (from faller towards observer, n decreasing)
-export function photonN(nEmit: number, tEmit: number, tCurrent: number): number {
-  const dt = tCurrent - tEmit;
-  if (dt <= 0) return nEmit;
-  const speed = 1 / (Math.LN10 * Math.pow(10, Math.max(nEmit, 0)));
-  return nEmit - dt * speed;
+export function photonN(nEmit: number, tEmit: LogNumber, tCurrent: LogNumber): number {
+  const dt = tCurrent.sub(tEmit);
+  if (dt.isZero()) return nEmit;
+  const log10Speed = -Math.log10(Math.LN10) - Math.max(nEmit, 0);
+  return nEmit - Math.pow(10, dt.log10 + log10Speed);
+}
+
+// ============ REDSHIFT ============
+//
+// Light from the faller (radial fall from rest at nStart) to a static observer:
+//   1 + z = √(f_obs / f_emit) · γ(1 + v),   f = 1 - rₛ/r
+// The first factor is gravitational, the second the Doppler shift of the
+// faller receding at speed v relative to the local static frame. f_emit → 0 at
+// the horizon, so both are returned in log space.
+
+// log₁₀ f at radius r = 1 + 10^(-n): f = ε / (1 + ε)
+function log10LapseSquared(n: number): number {
+  return -n - Math.log1p(Math.pow(10, -n)) / Math.LN10;
+}
+
+export function gravitationalRedshift(nEmit: number, nObserver: number): LogNumber {
+  if (!isFinite(nEmit)) return LogNumber.INFINITY;
+  return LogNumber.fromLog10(0.5 * (log10LapseSquared(nObserver) - log10LapseSquared(nEmit)));
+}
+
+export function dopplerRedshift(nEmit: number, nStart: number): LogNumber {
+  if (!isFinite(nEmit)) return LogNumber.INFINITY;
+  const rEmit = nToRadius(nEmit);
+  const rStart = nToRadius(nStart);
+  const energy = Math.sqrt(1 - 1 / rStart);  // Conserved specific energy of fall from rest
+  // |u^r| = √(1/r - 1/R), with the difference taken on the small offsets
+  const radialSpeed = Math.sqrt(Math.max(0, Math.pow(10, -nStart) - Math.pow(10, -nEmit)) / (rEmit * rStart));
+  return LogNumber.fromLog10(Math.log10(energy + radialSpeed) - 0.5 * log10LapseSquared(nEmit));
+}
+
+// Coordinate time for an outward photon to climb from nEmit to nTarget (inverse of photonN)
+export function photonOutwardDelta(nEmit: number, nTarget: number): LogNumber {
+  if (nEmit <= nTarget) return LogNumber.ZERO;
+  return LogNumber.fromNumber((nEmit - nTarget) * Math.LN10).mul(LogNumber.pow10(Math.max(nEmit, 0)));
 }
 
 // Inward photon (from observer towards horizon, n increasing)
 // dn/dt = 1 / (ln10 * (1 + 10^(-n)))
 // For efficiency, we work in log space: log_dt = log10(dt)
-export function photonNInward(nEmit: number, tEmit: number, tCurrent: number): number {
-  const dt = tCurrent - tEmit;
-  if (dt <= 0) return nEmit;
+export function photonNInward(nEmit: number, tEmit: LogNumber, tCurrent: LogNumber): number {
+  const dt = tCurrent.sub(tEmit);
+  if (dt.isZero()) return nEmit;
 
   // For inward photon, speed approaches 1/ln10 near horizon
   // dn/dt = 1 / (ln10 * (1 + 10^(-n)))
@@ -80,13 +164,366 @@ export function photonNInward(nEmit: number, tEmit: number, tCurrent: number): n
   // So after time dt, photon reaches n where: 10^(-n) = 10^(-nEmit) - dt/ln10
 
   // In log space: the remaining "log-distance" decreases
-  const remainingLogDist = Math.pow(10, -nEmit);
-  const traveled = dt / Math.LN10;
-  const newRemaining = remainingLogDist - traveled;
+  const remainingLogDist = LogNumber.pow10(-nEmit);
+  const traveled = dt.scale(1 / Math.LN10);
+  const newRemaining = remainingLogDist.sub(traveled);
 
-  if (newRemaining <= 0) {
+  if (newRemaining.isZero()) {
     return Infinity; // Reached/crossed horizon
   }
 
-  return -Math.log10(newRemaining);
-}
\ No newline at end of file
+  return -newRemaining.log10;
+}
+
+// Coordinate time an inward photon needs to reach n = ∞ from nEmit (inverse of the above)
+export function photonInwardHorizonDelta(nEmit: number): LogNumber {
+  return LogNumber.pow10(-nEmit).scale(Math.LN10);
+}
+
+// Coordinate time from emission at tEmit until an inward photon from nEmit
+// meets the faller released at nStart. The faller has 10^(-n) = 1/T(t) with
+// T = t + 10^nStart, the photon 10^(-n) = (D - Δt)/ln10 with D the delta above,
+// so they meet at the one root in [0, D) of
+//   (T + Δt)(D - Δt) = ln10
+// whenever the faller is still ahead (TD > ln10); the other root is negative.
+// Each branch is the cancellation-free form of that root, so the result is
+// finite for any tEmit, approaches D as tEmit grows, and is good to a few
+// ulps of its log10 (LogNumber's own precision).
+export function photonInterceptDelta(nEmit: number, tEmit: LogNumber, nStart: number): LogNumber {
+  const horizonDelta = photonInwardHorizonDelta(nEmit);
+  const fallerT = tEmit.add(LogNumber.pow10(nStart));
+  if (!fallerT.isFinite()) return horizonDelta;
+  const lead = fallerT.mul(horizonDelta).sub(LogNumber.fromNumber(Math.LN10));  // TD - ln10
+  if (lead.isZero()) return LogNumber.ZERO;  // Faller already at or behind the photon
+
+  // Δt = [(D - T) + √((T + D)² - 4ln10)] / 2
+  const root = fallerT.add(horizonDelta).mul(fallerT.add(horizonDelta)).sub(LogNumber.fromNumber(4 * Math.LN10)).sqrt();
+  if (horizonDelta.gte(fallerT)) return horizonDelta.sub(fallerT).add(root).scale(0.5);
+  return lead.scale(2).div(fallerT.sub(horizonDelta).add(root));
+}
+
+// ============ EXACT SCHWARZSCHILD (CYCLOID) ============
+//
+// Radial free fall from rest at R (units of rₛ, so 2M = 1), parameterized by
+// the cycloid angle η:
+//   r(η) = (R/2)(1 + cos η)
+//   τ(η) = (R^{3/2}/2)(η + sin η)
+//   t(η) = ln|(a + tan(η/2)) / (a - tan(η/2))| + a[η + (R/2)(η + sin η)],  a = √(R - 1)
+// Every quantity that degenerates near the horizon is rewritten in terms of
+// ε = r - 1 = 10^(-n) so it can be evaluated from n directly.
+
+// Past this n_τ the remaining proper time underflows; switch to the linear
+// near-horizon relation evaluated in log space (its error is O(10^(-n_τ))).
+const EXACT_LOG_SPACE_N_TAU = 250;
+
+// Cycloid angle at which the faller crosses r = rₛ: tan(η_h/2) = √(R - 1)
+function horizonEta(nStart: number): number {
+  return 2 * Math.atan(Math.sqrt(Math.pow(10, -nStart)));
+}
+
+// Proper time from rest to the horizon crossing
+export function exactMaxProperTime(nStart: number): number {
+  const R = nToRadius(nStart);
+  const etaH = horizonEta(nStart);
+  return Math.pow(R, 1.5) / 2 * (etaH + Math.sin(etaH));
+}
+
+// n of the faller when a fraction 10^(-n_τ) of the proper time to the horizon remains.
+export function exactFallingNByNTau(nTau: number, nStart: number): number {
+  if (nTau <= 0) return nStart;
+  if (!isFinite(nTau)) return Infinity;
+
+  const R = nToRadius(nStart);
+  const K = Math.pow(R, 1.5) / 2;
+  const etaH = horizonEta(nStart);
+  const log10DeltaTau = Math.log10(exactMaxProperTime(nStart)) - nTau;
+
+  if (nTau > EXACT_LOG_SPACE_N_TAU) {
+    // Δτ ≈ K(1 + cos η_h)Δη = √R·Δη and ε ≈ (R/2)·sin η_h·Δη
+    const log10DeltaEta = log10DeltaTau - 0.5 * Math.log10(R);
+    return -(Math.log10(R * Math.sin(etaH) / 2) + log10DeltaEta);
+  }
+
+  // Solve K[Δη + sin η_h - sin(η_h - Δη)] = Δτ for the cycloid angle still to go.
+  // The left side is convex in Δη, so Newton from the linear guess converges from above.
+  const deltaTau = Math.pow(10, log10DeltaTau);
+  let deltaEta = Math.min(deltaTau / Math.sqrt(R), etaH);
+  for (let i = 0; i < 60; i++) {
+    const g = K * (deltaEta + 2 * Math.cos(etaH - deltaEta / 2) * Math.sin(deltaEta / 2)) - deltaTau;
+    const dg = K * (1 + Math.cos(etaH - deltaEta));
+    const next = deltaEta - g / dg;
+    if (next === deltaEta || Math.abs(next - deltaEta) <= deltaEta * 1e-16) break;
+    deltaEta = next;
+  }
+
+  // ε = (R/2)(cos(η_h - Δη) - cos η_h), written without cancellation
+  const epsilon = R * Math.sin(etaH - deltaEta / 2) * Math.sin(deltaEta / 2);
+  return -Math.log10(epsilon);
+}
+
+// Proper time since release at n (inverse of exactFallingNByNTau in plain τ)
+export function exactProperTimeAtN(n: number, nStart: number): number {
+  if (n <= nStart) return 0;
+  if (!isFinite(n)) return exactMaxProperTime(nStart);
+  const epsilon = Math.pow(10, -n);
+  const eta = 2 * Math.atan(Math.sqrt((Math.pow(10, -nStart) - epsilon) / (1 + epsilon)));
+  return Math.pow(nToRadius(nStart), 1.5) / 2 * (eta + Math.sin(eta));
+}
+
+// Schwarzschild coordinate time since release. Grows like n·ln10 near the horizon.
+export function exactCoordinateTime(n: number, nStart: number): number {
+  if (!isFinite(n)) return Infinity;
+  if (n <= nStart) return 0;
+
+  const R = nToRadius(nStart);
+  const a = Math.sqrt(Math.pow(10, -nStart));
+  const epsilon = Math.pow(10, -n);
+  const tanHalf = Math.sqrt((Math.pow(10, -nStart) - epsilon) / (1 + epsilon));
+  const eta = 2 * Math.atan(tanHalf);
+
+  // a - tan(η/2) = Rε / ((1 + ε)(a + tan(η/2))), so the log term never divides by ~0
+  const logTerm = 2 * Math.log(a + tanHalf) + Math.log1p(epsilon) - Math.log(R) + n * Math.LN10;
+  return logTerm + a * (eta + R / 2 * (eta + Math.sin(eta)));
+}
+
+// Inverse of exactCoordinateTime by bisection (t is monotonic in n)
+export function exactFallingNAtCoordinateTime(t: number, nStart: number): number {
+  if (t <= 0) return nStart;
+  if (!isFinite(t)) return Infinity;
+
+  let nLow = nStart;
+  let nHigh = nStart + t / Math.LN10 + 1;
+  while (exactCoordinateTime(nHigh, nStart) < t) {
+    nHigh = nStart + 2 * (nHigh - nStart);
+  }
+
+  for (let i = 0; i < 200 && nHigh - nLow > 1e-15 * Math.max(1, Math.abs(nHigh)); i++) {
+    const nMid = (nLow + nHigh) / 2;
+    if (exactCoordinateTime(nMid, nStart) < t) {
+      nLow = nMid;
+    } else {
+      nHigh = nMid;
+    }
+  }
+  return (nLow + nHigh) / 2;
+}
+
+// Advanced time v = t + r* along the faller's worldline. The n·ln10 divergences
+// of t and r* cancel, so v stays finite and reaches exactHorizonAdvancedTime.
+export function exactAdvancedTime(n: number, nStart: number): number {
+  const R = nToRadius(nStart);
+  const a = Math.sqrt(Math.pow(10, -nStart));
+  const epsilon = isFinite(n) ? Math.pow(10, -n) : 0;
+  const tanHalf = Math.sqrt((Math.pow(10, -nStart) - epsilon) / (1 + epsilon));
+  const eta = 2 * Math.atan(tanHalf);
+  return 2 * Math.log(a + tanHalf) + Math.log1p(epsilon) - Math.log(R) + 1 + epsilon
+    + a * (eta + R / 2 * (eta + Math.sin(eta)));
+}
+
+export function exactHorizonAdvancedTime(nStart: number): number {
+  return exactAdvancedTime(Infinity, nStart);
+}
+
+// Where an ingoing photon of advanced time v meets the faller. Ingoing photons
+// keep v constant, so one sent after the faller's horizon v catches it only
+// inside the horizon: Infinity. Plain bisection, kept as the reference for
+// createExactInterceptSolver.
+export function exactInterceptN(v: number, nStart: number): number {
+  if (v >= exactHorizonAdvancedTime(nStart)) return Infinity;
+  if (v <= exactAdvancedTime(nStart, nStart)) return nStart;
+
+  let nLow = nStart;
+  let nHigh = nStart + 1;
+  for (let i = 0; exactAdvancedTime(nHigh, nStart) < v; i++) {
+    if (i >= 60) return Infinity;  // v within rounding of the horizon value
+    nHigh = nStart + 2 * (nHigh - nStart);
+  }
+
+  for (let i = 0; i < 200 && nHigh - nLow > 1e-15 * Math.max(1, Math.abs(nHigh)); i++) {
+    const nMid = (nLow + nHigh) / 2;
+    if (exactAdvancedTime(nMid, nStart) < v) {
+      nLow = nMid;
+    } else {
+      nHigh = nMid;
+    }
+  }
+  return (nLow + nHigh) / 2;
+}
+
+// The same inverse from a table of v on a uniform grid in s = √(n - nStart),
+// where v(s) is smooth (dv/dn blows up at release, dv/ds does not):
+//   dv/ds = 2s·ln10·ε / (q(E + q)),   q = √(E² - f),   E² = 1 - 1/R
+// A table lookup brackets the root and Newton on the exact v finishes it, as
+// far as v itself resolves n (|Δn| ~ 1e-11 against the bisection; accuracy.ts
+// checks it). About 2 µs a call against the bisection's 14. Beyond the table
+// the faller is in its near-horizon tail, where v_h - v = ε/(2E²)·(1 + O(ε)),
+// and that series, polished by Newton, is used instead; v's own rounding
+// (~1e-16·|v|) swamps its O(ε²) error there.
+const INTERCEPT_TABLE_DECADES = 20;
+const INTERCEPT_TABLE_INTERVALS = 256;
+
+export function createExactInterceptSolver(nStart: number): (v: number) => number {
+  const epsilonStart = Math.pow(10, -nStart);
+  const energySquared = epsilonStart / (1 + epsilonStart);
+  const energy = Math.sqrt(energySquared);
+  const step = Math.sqrt(INTERCEPT_TABLE_DECADES) / INTERCEPT_TABLE_INTERVALS;
+  const horizonV = exactHorizonAdvancedTime(nStart);
+
+  const advanced = (s: number) => exactAdvancedTime(nStart + s * s, nStart);
+  const slope = (s: number) => {
+    const s2 = s * s;
+    const epsilon = Math.pow(10, -nStart - s2);
+    const dropPerS2 = s2 > 0 ? -Math.expm1(-s2 * Math.LN10) / s2 : Math.LN10;  // (1 - 10^(-s²))/s²
+    const qPerS = Math.sqrt(epsilonStart * dropPerS2 / ((1 + epsilonStart) * (1 + epsilon)));
+    return 2 * Math.LN10 * epsilon / (qPerS * (energy + qPerS * s));
+  };
+  const newton = (s: number, v: number, low: number, high: number) => {
+    for (let i = 0; i < 8; i++) {
+      const next = Math.min(high, Math.max(low, s - (advanced(s) - v) / slope(s)));
+      if (Math.abs(next - s) <= 1e-15 * Math.max(1, s)) return next;
+      s = next;
+    }
+    return s;
+  };
+
+  const table: number[] = [];
+  for (let k = 0; k <= INTERCEPT_TABLE_INTERVALS; k++) table.push(advanced(k * step));
+  const vEnd = table[INTERCEPT_TABLE_INTERVALS];
+  const sEnd = INTERCEPT_TABLE_INTERVALS * step;
+
+  return (v: number) => {
+    if (v >= horizonV) return Infinity;
+    if (v <= table[0]) return nStart;
+
+    if (v >= vEnd) {
+      const n = -Math.log10(2 * energySquared * (horizonV - v));
+      const s = newton(Math.sqrt(Math.max(sEnd * sEnd, n - nStart)), v, sEnd, Infinity);
+      return nStart + s * s;
+    }
+
+    let low = 0;
+    let high = INTERCEPT_TABLE_INTERVALS;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (table[mid] < v) low = mid; else high = mid;
+    }
+    const u = (v - table[low]) / (table[high] - table[low]);
+    const s = newton((low + u) * step, v, low * step, high * step);
+    return nStart + s * s;
+  };
+}
+
+// ============ INTERIOR (INGOING EDDINGTON–FINKELSTEIN) ============
+//
+// The cycloid is a proper-time description, so it runs straight through r = rₛ
+// to the singularity at η = π. Schwarzschild t is singular at the horizon; the
+// advanced time v = t + r* is not, and serves as the interior time coordinate.
+
+// Proper time from the horizon crossing to r = 0
+export function interiorProperTime(nStart: number): number {
+  const R = nToRadius(nStart);
+  const etaH = horizonEta(nStart);
+  return Math.pow(R, 1.5) / 2 * (Math.PI - etaH - Math.sin(etaH));
+}
+
+// Cycloid angle reached a proper time tauIn after the horizon crossing
+function interiorEta(tauIn: number, nStart: number): number {
+  const K = Math.pow(nToRadius(nStart), 1.5) / 2;
+  const etaH = horizonEta(nStart);
+  const target = etaH + Math.sin(etaH) + tauIn / K;
+  if (target >= Math.PI) return Math.PI;
+
+  // η + sin η is increasing on [η_h, π]; bisect (its slope vanishes at π)
+  let low = etaH;
+  let high = Math.PI;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (mid + Math.sin(mid) < target) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// r (units of rₛ) a proper time tauIn after the horizon crossing
+export function interiorRadius(tauIn: number, nStart: number): number {
+  const R = nToRadius(nStart);
+  return R / 2 * (1 + Math.cos(interiorEta(tauIn, nStart)));
+}
+
+// Advanced time v at radius r on the faller's worldline, valid on both sides of
+// the horizon: 2ln(a + tan(η/2)) + ln r = 2ln(a√r + √(R - r)) stays finite to r = 0
+export function advancedTimeAtRadius(r: number, nStart: number): number {
+  const R = nToRadius(nStart);
+  const a = Math.sqrt(Math.pow(10, -nStart));
+  const eta = 2 * Math.atan2(Math.sqrt(Math.max(0, R - r)), Math.sqrt(r));
+  return 2 * Math.log(a * Math.sqrt(r) + Math.sqrt(Math.max(0, R - r))) - Math.log(R) + r
+    + a * (eta + R / 2 * (eta + Math.sin(eta)));
+}
+
+// Radial tidal stretch d²ξ/dτ² per unit length, 2M/r³ = 1/r³ in units of (c/rₛ)²
+export function tidalStretch(r: number): number {
+  return 1 / (r * r * r);
+}
+
+// Tortoise coordinate r* = r + ln(r - 1), in units of rₛ
+export function tortoise(n: number): number {
+  return 1 + Math.pow(10, -n) - n * Math.LN10;
+}
+
+// Inverse of tortoise: Newton on the convex, decreasing f(n) = r*(n) - rStar
+export function tortoiseToN(rStar: number): number {
+  let n = rStar > 2 ? -Math.log10(rStar) : (1 - rStar) / Math.LN10;
+  for (let i = 0; i < 100; i++) {
+    const epsilon = Math.pow(10, -n);
+    const f = 1 + epsilon - n * Math.LN10 - rStar;
+    const next = n + f / (Math.LN10 * (1 + epsilon));
+    if (next === n || Math.abs(next - n) <= 1e-15 * Math.max(1, Math.abs(n))) return next;
+    n = next;
+  }
+  return n;
+}
+
+// Outward photon along exact null geodesic: r* grows by dt
+export function exactPhotonN(nEmit: number, tEmit: number, tCurrent: number): number {
+  const dt = tCurrent - tEmit;
+  if (dt <= 0) return nEmit;
+  return tortoiseToN(tortoise(nEmit) + dt);
+}
+
+// Inward photon along exact null geodesic: r* shrinks by dt, never reaching the horizon
+export function exactPhotonNInward(nEmit: number, tEmit: number, tCurrent: number): number {
+  const dt = tCurrent - tEmit;
+  if (dt <= 0) return nEmit;
+  return tortoiseToN(tortoise(nEmit) - dt);
+}
+
+// ============ DIAGRAM COORDINATES ============
+//
+// Events are carried as (r, v) with v = t + r* the ingoing EF time, which is
+// regular through the horizon. From there (rₛ = 1):
+//   Eddington–Finkelstein: t̃ = v - r (ingoing light rays at 45°)
+//   Kruskal–Szekeres:      V = e^{v/2}, U = (1 - r)e^r / V, T = (V + U)/2, X = (V - U)/2
+
+// Advanced time of the Schwarzschild event (n, t); Infinity once t leaves the double range
+export function advancedTime(n: number, t: LogNumber): number {
+  return t.toNumber() + tortoise(n);
+}
+
+export function eddingtonFinkelsteinTime(r: number, v: number): number {
+  return v - r;
+}
+
+export function kruskal(r: number, v: number): { T: number; X: number } {
+  const V = Math.exp(v / 2);
+  const U = (1 - r) * Math.exp(r) / V;
+  return { T: (V + U) / 2, X: (V - U) / 2 };
+}
+
+// dt̃/dr along an outgoing light ray in EF; negative inside the horizon, where
+// "outgoing" light still falls in. Ingoing rays always have slope -1.
+export function efOutgoingSlope(r: number): number {
+  return (r + 1) / (r - 1);
+}
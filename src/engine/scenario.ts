@@ -0,0 +1,209 @@
+// scenario.ts
+
+/**
+ * Everything needed to reproduce a moment of the simulation: the black hole,
+ * both worldlines, the clock and the playback settings. Saved as a JSON file
+ * or packed into the URL hash for sharing.
+ *
+ * Numbers are written as JSON numbers, whose shortest round-trip form parses
+ * back to the same double, so n_tau deep into the decades survives exactly.
+ * JSON has no Infinity: an n_tau at the horizon is written as "Infinity".
+ */
+
+import { physicsModelLabels, type Config, type PhysicsModel } from "./BlackHoleEngine";
+import { observerKindLabels, type ObserverKind } from "./observers";
+import { isSpeed } from "./speeds";
+import type { FallerBody } from "./tidal";
+
+export const SCENARIO_VERSION = 2;
+
+export interface Scenario {
+  version: typeof SCENARIO_VERSION;
+  mass: number;               // Solar masses
+  nFaller: number;
+  nObserver: number;
+  model: PhysicsModel;
+  observerKind: ObserverKind;
+  releaseTau: number;         // Delayed faller's hover time before the drop (rₛ/c)
+  spin: number;               // a/M
+  charge: number;             // Q/M
+  body: FallerBody | null;    // Faller's size for tidal forces; null for a point
+  currentNTau: number;        // Faller's logarithmic proper time; Infinity at the horizon
+  interiorTau: number | null; // Proper time past the horizon, null while outside
+  speed: string;              // Playback speed option
+  stopOneTickBefore: boolean;
+  autoDownscale: boolean;
+}
+
+/** A file or link that is not a scenario this version can read */
+export class ScenarioError extends Error {}
+
+type RawScenario = Record<string, unknown>;
+
+/**
+ * Upgrades from version k to k + 1, applied in order up to SCENARIO_VERSION.
+ * Bump the version and add a step here whenever a field is renamed, removed
+ * or changes meaning, so older files and links keep loading.
+ */
+const migrations: Record<number, (raw: RawScenario) => RawScenario> = {
+  // 1 -> 2: the faller gained a body; older scenarios had a point
+  1: raw => ({ ...raw, body: null }),
+};
+
+export function migrateScenario(raw: RawScenario): RawScenario {
+  let version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1)
+    throw new ScenarioError("Not a scenario: missing format version");
+  if (version > SCENARIO_VERSION)
+    throw new ScenarioError(`Scenario format ${version} is newer than this app reads (up to ${SCENARIO_VERSION})`);
+
+  let migrated = raw;
+  for (; version < SCENARIO_VERSION; version++) {
+    const step = migrations[version];
+    if (!step) throw new ScenarioError(`No migration from scenario format ${version}`);
+    migrated = { ...step(migrated), version: version + 1 };
+  }
+  return migrated;
+}
+
+function finite(raw: RawScenario, key: string): number {
+  const value = raw[key];
+  if (typeof value !== 'number' || !isFinite(value))
+    throw new ScenarioError(`${key} must be a finite number`);
+  return value;
+}
+
+function oneOf<T extends string>(raw: RawScenario, key: string, labels: Record<T, string>): T {
+  const value = raw[key];
+  if (typeof value !== 'string' || !(value in labels))
+    throw new ScenarioError(`${key} must be one of ${Object.keys(labels).join(', ')}`);
+  return value as T;
+}
+
+function body(raw: RawScenario): FallerBody | null {
+  if (raw.body === null) return null;
+  if (typeof raw.body !== 'object')
+    throw new ScenarioError("body must be an object or null");
+  const fields = raw.body as RawScenario;
+  const length = finite(fields, 'length');
+  const mass = finite(fields, 'mass');
+  const strength = finite(fields, 'strength');
+  if (length <= 0 || mass <= 0 || strength < 0)
+    throw new ScenarioError("body needs a positive length and mass and a non-negative strength");
+  return { length, mass, strength };
+}
+
+function flag(raw: RawScenario, key: string): boolean {
+  const value = raw[key];
+  if (typeof value !== 'boolean') throw new ScenarioError(`${key} must be true or false`);
+  return value;
+}
+
+/**
+ * Check a current-format scenario field by field. Whether the engine accepts
+ * the combination (an orbit inside the photon sphere, say) is left to the
+ * engine itself.
+ */
+export function validateScenario(raw: RawScenario): Scenario {
+  const mass = finite(raw, 'mass');
+  if (mass <= 0) throw new ScenarioError("mass must be positive");
+
+  const nFaller = finite(raw, 'nFaller');
+  const nObserver = finite(raw, 'nObserver');
+  if (nObserver >= nFaller) throw new ScenarioError("nObserver must be below nFaller (observer further out)");
+
+  const releaseTau = finite(raw, 'releaseTau');
+  if (releaseTau < 0) throw new ScenarioError("releaseTau must not be negative");
+
+  const spin = finite(raw, 'spin');
+  const charge = finite(raw, 'charge');
+  if (spin < 0 || charge < 0) throw new ScenarioError("spin and charge must not be negative");
+  if (spin * spin + charge * charge >= 1) throw new ScenarioError("spin² + charge² must stay below 1 (no horizon otherwise)");
+
+  const model = oneOf(raw, 'model', physicsModelLabels);
+  if (model === 'asymptotic' && (spin > 0 || charge > 0))
+    throw new ScenarioError("The asymptotic model is Schwarzschild only");
+
+  const currentNTau = raw.currentNTau === 'Infinity' ? Infinity : finite(raw, 'currentNTau');
+  if (currentNTau < 0) throw new ScenarioError("currentNTau must not be negative");
+
+  const interiorTau = raw.interiorTau === null ? null : finite(raw, 'interiorTau');
+  if (interiorTau !== null && interiorTau < 0) throw new ScenarioError("interiorTau must not be negative");
+
+  if (!isSpeed(raw.speed)) throw new ScenarioError(`speed must be one of the playback speed options, got ${JSON.stringify(raw.speed)}`);
+
+  return {
+    version: SCENARIO_VERSION,
+    mass,
+    nFaller,
+    nObserver,
+    model,
+    observerKind: oneOf(raw, 'observerKind', observerKindLabels),
+    releaseTau,
+    spin,
+    charge,
+    body: body(raw),
+    currentNTau,
+    interiorTau,
+    speed: raw.speed,
+    stopOneTickBefore: flag(raw, 'stopOneTickBefore'),
+    autoDownscale: flag(raw, 'autoDownscale'),
+  };
+}
+
+/** Engine configuration for the scenario */
+export function scenarioEngineConfig(
+  scenario: Pick<Scenario, 'nFaller' | 'nObserver' | 'model' | 'observerKind' | 'releaseTau' | 'spin' | 'charge'>
+): Config {
+  return {
+    nFaller: scenario.nFaller,
+    nObserver: scenario.nObserver,
+    model: scenario.model,
+    observer: { kind: scenario.observerKind, releaseTau: scenario.releaseTau },
+    metric: { spin: scenario.spin, charge: scenario.charge },
+  };
+}
+
+function toRaw(scenario: Scenario): RawScenario {
+  return { ...scenario, currentNTau: isFinite(scenario.currentNTau) ? scenario.currentNTau : 'Infinity' };
+}
+
+export function scenarioToJson(scenario: Scenario): string {
+  return JSON.stringify(toRaw(scenario), null, 2);
+}
+
+export function parseScenarioJson(text: string): Scenario {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ScenarioError("Not a scenario: the file is not valid JSON");
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw))
+    throw new ScenarioError("Not a scenario: expected a JSON object");
+  return validateScenario(migrateScenario(raw as RawScenario));
+}
+
+// The hash carries the same JSON, base64url-encoded (no escaping, no padding)
+const HASH_KEY = 'scenario=';
+
+export function scenarioToHash(scenario: Scenario): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(toRaw(scenario)));
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return `#${HASH_KEY}${base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+}
+
+/** Scenario from a location hash; null when the hash holds none */
+export function parseScenarioHash(hash: string): Scenario | null {
+  const body = hash.replace(/^#/, '');
+  if (!body.startsWith(HASH_KEY)) return null;
+
+  let text: string;
+  try {
+    const base64 = body.slice(HASH_KEY.length).replace(/-/g, '+').replace(/_/g, '/');
+    text = new TextDecoder().decode(Uint8Array.from(atob(base64), ch => ch.charCodeAt(0)));
+  } catch {
+    throw new ScenarioError("Not a scenario: the link is damaged");
+  }
+  return parseScenarioJson(text);
+}
@@ -0,0 +1,183 @@
+// signals.ts
+
+/**
+ * A message sent to the faller as a train of light pulses, one per bit, at a
+ * steady rate on the observer's clock. The faller answers each pulse the
+ * moment it arrives, and the answer climbs back out.
+ *
+ * Every pulse is sent at a later advanced time than the one before, so it
+ * meets the faller deeper down and its answer comes back later and redder.
+ * In the asymptotic model every pulse is still answered, if only after an
+ * absurd wait; with exact geodesics the pulses sent after the faller's
+ * horizon advanced time only reach it inside, and those answers are never
+ * seen. Each pulse is solved once, when sent, like PhotonTracker's photons.
+ *
+ * Late in the fall the observer's clock reads far more than the pulse
+ * spacing, so each pulse keeps its offset from the first as a delta, and a
+ * message whose spacing the clock cannot resolve is not sent at all.
+ */
+
+import type { BlackHoleEngine } from "./BlackHoleEngine";
+import { LogNumber } from "./LogNumber";
+import type { createUnits } from "./units";
+
+type Units = ReturnType<typeof createUnits>;
+
+type SignalEngine = Pick<BlackHoleEngine,
+  'getPhotonIntersectDelta' | 'getFallerNAtObserverTau' | 'getOutgoingArrivalTau' | 'getFallerLightRedshift'
+  | 'getObserverPhotonN' | 'getOutgoingPhotonN'>;
+
+// Long enough for a sentence, short enough to read as a stream
+export const MAX_MESSAGE_BYTES = 32;
+
+export interface SignalPulse {
+  index: number;
+  bit: 0 | 1;
+  char: string;                  // The character this bit belongs to
+  charIndex: number;             // Which character of the message that is
+  startTau: LogNumber;           // Observer proper time the message went out (its first pulse)
+  emitDelta: LogNumber;          // Observer time from the first pulse to this one
+  emitTau: LogNumber;            // Observer proper time at emission
+  interceptDelta: LogNumber;     // Observer time from emission to the faller receiving it (INFINITY if only inside)
+  deliverTau: LogNumber;         // Observer time the faller receives it (INFINITY if only inside)
+  deliverN: number;              // Faller's n on receipt (Infinity if inside)
+  replyTau: LogNumber;           // Observer time the answer arrives (INFINITY if never)
+  replyRedshift: LogNumber | null; // 1 + z of the answer on arrival; null if it never arrives
+}
+
+/**
+ * 'queued'     - not sent yet
+ * 'inbound'    - on its way to the faller
+ * 'delivered'  - the faller has it; the answer is on its way back
+ * 'replied'    - the answer has arrived
+ * 'unanswered' - the answer will never be seen (known as soon as it is sent)
+ */
+export type PulseStatus = 'queued' | 'inbound' | 'delivered' | 'replied' | 'unanswered';
+
+export const pulseStatusLabels: Record<PulseStatus, string> = {
+  queued: 'Queued',
+  inbound: 'On its way',
+  delivered: 'Delivered',
+  replied: 'Replied',
+  unanswered: 'Reply never seen',
+};
+
+export interface PulseState {
+  status: PulseStatus;
+  received: boolean; // The faller has it (even if its answer is never seen)
+  n: number | null;  // Where the pulse or its answer is, while one is in flight
+}
+
+/** UTF-8 bytes of the text, most significant bit first, capped at MAX_MESSAGE_BYTES */
+export function encodeMessage(text: string): { bit: 0 | 1; char: string; charIndex: number }[] {
+  const bits: { bit: 0 | 1; char: string; charIndex: number }[] = [];
+  const encoder = new TextEncoder();
+  let bytes = 0;
+  let charIndex = 0;
+  for (const char of text) {
+    const encoded = encoder.encode(char);
+    if (bytes + encoded.length > MAX_MESSAGE_BYTES) break;
+    bytes += encoded.length;
+    for (const byte of encoded) {
+      for (let i = 7; i >= 0; i--) bits.push({ bit: ((byte >> i) & 1) as 0 | 1, char, charIndex });
+    }
+    charIndex++;
+  }
+  return bits;
+}
+
+/** Text from the leading whole bytes of a bit stream; a cut multi-byte character is dropped */
+export function decodeBits(bits: (0 | 1)[]): string {
+  const bytes = new Uint8Array(Math.floor(bits.length / 8));
+  for (let k = 0; k < bytes.length; k++) {
+    for (let i = 0; i < 8; i++) bytes[k] = (bytes[k] << 1) | bits[8 * k + i];
+  }
+  return new TextDecoder('utf-8', { fatal: false }).decode(bytes).replace(/�$/, '');
+}
+
+/** Observer proper time between pulses, in rₛ/c */
+function pulseSpacing(units: Units, rate: number): LogNumber {
+  if (!(rate > 0)) throw new Error(`Pulse rate must be positive, got ${rate}`);
+  return LogNumber.fromNumber(1 / (rate * units.tauToSeconds(1)));
+}
+
+/**
+ * Whether the observer's clock, reading startTau, still tells one pulse from
+ * the next; past that point every pulse would be sent at the same time
+ */
+export function pulsesResolvable(units: Units, rate: number, startTau: LogNumber): boolean {
+  return startTau.lt(startTau.add(pulseSpacing(units, rate)));
+}
+
+/**
+ * Send the message from the observer, one pulse per bit
+ * @param rate - Pulses per second of observer proper time
+ * @param startTau - Observer proper time of the first pulse
+ */
+export function sendMessage(engine: SignalEngine, units: Units, message: string, rate: number, startTau: LogNumber): SignalPulse[] {
+  const spacing = pulseSpacing(units, rate);
+  if (!pulsesResolvable(units, rate, startTau)) {
+    throw new Error(`Pulses ${spacing.toNumber()} rₛ/c apart cannot be told apart at observer time 10^${startTau.log10} rₛ/c`);
+  }
+
+  return encodeMessage(message).map(({ bit, char, charIndex }, index) => {
+    const emitDelta = spacing.mul(LogNumber.fromNumber(index));
+    const emitTau = startTau.add(emitDelta);
+    const interceptDelta = engine.getPhotonIntersectDelta(emitTau);
+    const deliverTau = emitTau.add(interceptDelta);
+    const deliverN = deliverTau.isFinite() ? engine.getFallerNAtObserverTau(deliverTau) : Infinity;
+    const replyTau = isFinite(deliverN) ? engine.getOutgoingArrivalTau(deliverN, deliverTau) : LogNumber.INFINITY;
+    const replyRedshift = replyTau.isFinite() ? engine.getFallerLightRedshift(deliverN, replyTau) : null;
+    return { index, bit, char, charIndex, startTau, emitDelta, emitTau, interceptDelta, deliverTau, deliverN, replyTau, replyRedshift };
+  });
+}
+
+/**
+ * Where a pulse stands at the observer's current proper time
+ */
+export function pulseState(engine: SignalEngine, pulse: SignalPulse, tauObserver: LogNumber): PulseState {
+  // Measured from the first pulse, so pulses closer together than the clock's resolution still queue in turn
+  const elapsed = tauObserver.sub(pulse.startTau);
+  if (elapsed.lt(pulse.emitDelta)) return { status: 'queued', received: false, n: null };
+  const answered = pulse.replyTau.isFinite();
+  if (elapsed.lt(pulse.emitDelta.add(pulse.interceptDelta))) {
+    const n = engine.getObserverPhotonN(pulse.emitTau, tauObserver);
+    return { status: answered ? 'inbound' : 'unanswered', received: false, n };
+  }
+  if (tauObserver.lt(pulse.replyTau)) {
+    const n = engine.getOutgoingPhotonN(pulse.deliverN, pulse.deliverTau, tauObserver);
+    return { status: answered ? 'delivered' : 'unanswered', received: true, n };
+  }
+  return { status: 'replied', received: true, n: null };
+}
+
+export interface SignalSummary {
+  counts: Record<PulseStatus, number>;
+  read: string;         // What the faller has received so far, from the start of the message
+  heard: string;        // What has come back so far
+  everHeard: string;    // All that will ever come back
+  redshift: { first: LogNumber; last: LogNumber } | null;  // Over the answers heard so far
+}
+
+export function summarizeSignal(pulses: SignalPulse[], states: PulseState[]): SignalSummary {
+  const counts: Record<PulseStatus, number> = { queued: 0, inbound: 0, delivered: 0, replied: 0, unanswered: 0 };
+  for (const state of states) counts[state.status]++;
+
+  // The leading run of pulses that pass a test, as text
+  const prefix = (passes: (pulse: SignalPulse, state: PulseState) => boolean) => {
+    const bits: (0 | 1)[] = [];
+    for (let i = 0; i < pulses.length && passes(pulses[i], states[i]); i++) bits.push(pulses[i].bit);
+    return decodeBits(bits);
+  };
+  const replied = pulses.filter((_, i) => states[i].status === 'replied');
+
+  return {
+    counts,
+    read: prefix((_, state) => state.received),
+    heard: prefix((_, state) => state.status === 'replied'),
+    everHeard: prefix(pulse => pulse.replyTau.isFinite()),
+    redshift: replied.length
+      ? { first: replied[0].replyRedshift!, last: replied[replied.length - 1].replyRedshift! }
+      : null,
+  };
+}
@@ -0,0 +1,55 @@
+// speeds.ts
+
+/**
+ * Playback speeds: how much of the faller's proper time one tick of playback
+ * covers, smallest first. The playback controls turn them into n_tau steps;
+ * scenarios and tours name them by value, and are checked against this list.
+ */
+
+export interface SpeedOption {
+  value: string;
+  label: string;
+  secondsPerTick: number;  // 0 for COMPLETE_IN_ONE_MINUTE, which steps n_tau evenly instead
+}
+
+// Reaches n_tau = 20 in a minute of playback, whatever the hole
+export const COMPLETE_IN_ONE_MINUTE = '1min';
+
+export const speedOptions: readonly SpeedOption[] = [
+  { value: '1e-81s', label: '10⁻⁸¹s/tick', secondsPerTick: 1e-81 },
+  { value: '1e-78s', label: '10⁻⁷⁸s/tick', secondsPerTick: 1e-78 },
+  { value: '1e-75s', label: '10⁻⁷⁵s/tick', secondsPerTick: 1e-75 },
+  { value: '1e-72s', label: '10⁻⁷²s/tick', secondsPerTick: 1e-72 },
+  { value: '1e-69s', label: '10⁻⁶⁹s/tick', secondsPerTick: 1e-69 },
+  { value: '1e-66s', label: '10⁻⁶⁶s/tick', secondsPerTick: 1e-66 },
+  { value: '1e-63s', label: '10⁻⁶³s/tick', secondsPerTick: 1e-63 },
+  { value: '1e-60s', label: '10⁻⁶⁰s/tick', secondsPerTick: 1e-60 },
+  { value: '1e-57s', label: '10⁻⁵⁷s/tick', secondsPerTick: 1e-57 },
+  { value: '1e-54s', label: '10⁻⁵⁴s/tick', secondsPerTick: 1e-54 },
+  { value: '1e-51s', label: '10⁻⁵¹s/tick', secondsPerTick: 1e-51 },
+  { value: '1e-48s', label: '10⁻⁴⁸s/tick', secondsPerTick: 1e-48 },
+  { value: '1e-45s', label: '10⁻⁴⁵s/tick (~Planck time)', secondsPerTick: 1e-45 },
+  { value: '1e-42s', label: '10⁻⁴²s/tick', secondsPerTick: 1e-42 },
+  { value: '1e-39s', label: '10⁻³⁹s/tick', secondsPerTick: 1e-39 },
+  { value: '1e-36s', label: '10⁻³⁶s/tick', secondsPerTick: 1e-36 },
+  { value: '1e-33s', label: '10⁻³³s/tick', secondsPerTick: 1e-33 },
+  { value: '1qs', label: '1qs/tick (quectosecond, 10⁻³⁰s)', secondsPerTick: 1e-30 },
+  { value: '1rs', label: '1rs/tick (rontosecond, 10⁻²⁷s)', secondsPerTick: 1e-27 },
+  { value: '1ys', label: '1ys/tick (yoctosecond, 10⁻²⁴s)', secondsPerTick: 1e-24 },
+  { value: '1zs', label: '1zs/tick (zeptosecond, 10⁻²¹s)', secondsPerTick: 1e-21 },
+  { value: '1as', label: '1as/tick (attosecond, 10⁻¹⁸s)', secondsPerTick: 1e-18 },
+  { value: '1fs', label: '1fs/tick (femtosecond, 10⁻¹⁵s)', secondsPerTick: 1e-15 },
+  { value: '1ps', label: '1ps/tick (picosecond, 10⁻¹²s)', secondsPerTick: 1e-12 },
+  { value: '1ns', label: '1ns/tick (nanosecond, 10⁻⁹s)', secondsPerTick: 1e-9 },
+  { value: '1us', label: '1μs/tick (microsecond, 10⁻⁶s)', secondsPerTick: 1e-6 },
+  { value: '1ms', label: '1ms/tick (millisecond, 10⁻³s)', secondsPerTick: 1e-3 },
+  { value: '1s', label: '1s/tick (second, 10⁰s)', secondsPerTick: 1 },
+  { value: '1m', label: '1m/tick (minute, 60s)', secondsPerTick: 60 },
+  { value: '1h', label: '1h/tick (hour, 3600s)', secondsPerTick: 3600 },
+  { value: '1d', label: '1d/tick (day, 86400s)', secondsPerTick: 86400 },
+  { value: COMPLETE_IN_ONE_MINUTE, label: 'Complete in 1min', secondsPerTick: 0 },
+];
+
+export function isSpeed(value: unknown): value is string {
+  return speedOptions.some(option => option.value === value);
+}
@@ -0,0 +1,106 @@
+// tidal.ts
+
+/**
+ * Spaghettification of a faller with size: a uniform body of given length
+ * and mass, falling feet first along the radial line.
+ *
+ * The metric's radial tidal term k (per second², SI) pulls the two ends apart
+ * at k·L. Held together by its strength, a uniform body carries tension
+ * T(x) = (m·k / 2L)·(L²/4 - x²) at distance x from its middle, largest there:
+ * m·k·L/8. It tears once that exceeds what holds the halves together: the
+ * material's strength plus the halves' mutual gravity, ~G·m²/L² (all that
+ * holds a neutron star). k grows like 1/r³, as rₛ⁻² in SI: small black holes
+ * shred a human long before the horizon, supermassive ones let it through.
+ */
+
+import type { BlackHoleEngine } from "./BlackHoleEngine";
+import type { Metric } from "./metrics";
+import { G, M_SUN, type createUnits } from "./units";
+
+type Units = ReturnType<typeof createUnits>;
+
+export interface FallerBody {
+  length: number;   // m, along the radial direction
+  mass: number;     // kg
+  strength: number; // N: tension across its middle that the material survives
+}
+
+export type BodyPreset = 'human' | 'steel-rod' | 'neutron-star';
+
+export const bodyPresets: Record<BodyPreset, { label: string; body: FallerBody }> = {
+  // About what a spine and its ligaments take in tension
+  human: { label: 'Human (2 m, 70 kg)', body: { length: 2, mass: 70, strength: 5e3 } },
+  // 10 cm² of structural steel at ~400 MPa
+  'steel-rod': { label: 'Steel rod (10 m, 800 kg)', body: { length: 10, mass: 800, strength: 4e5 } },
+  // A fluid: only its own gravity holds it
+  'neutron-star': { label: 'Neutron star (10 km, 1.4 M☉)', body: { length: 1e4, mass: 1.4 * M_SUN, strength: 0 } },
+};
+
+export interface TidalLoad {
+  stretch: number;    // s⁻²: relative acceleration per metre of length
+  endToEnd: number;   // m/s² between the two ends
+  tension: number;    // N at the middle
+  hold: number;       // N: strength plus self-gravity
+  stress: number;     // tension / hold; the body tears at 1
+}
+
+export function tidalLoad(metric: Metric, units: Units, body: FallerBody, r: number): TidalLoad {
+  const stretch = units.tidalToPerSecondSquared(metric.tidalStretch(r));
+  const tension = body.mass * stretch * body.length / 8;
+  const hold = body.strength + G * body.mass * body.mass / (body.length * body.length);
+  return { stretch, endToEnd: stretch * body.length, tension, hold, stress: tension / hold };
+}
+
+export interface TearApart {
+  r: number;                 // rₛ
+  n: number;                 // Infinity if inside the horizon
+  nTau: number | null;       // Faller's n_tau at the tear; null inside the horizon
+  insideHorizon: boolean;
+  atRelease: boolean;        // Already torn where it is let go
+}
+
+type TearEngine = Pick<BlackHoleEngine, 'metric' | 'cfg' | 'getNTauAtFallerN'>;
+
+// Decades below the release point to scan; k has long stopped changing by then
+const SCAN_DECADES = 30;
+const SCAN_STEPS = 600;
+
+/**
+ * Where the body first tears, if anywhere on its way down: outside the horizon
+ * (with the moment), or inside it where the metric has an interior. The
+ * exterior is scanned in n before bisecting, since with charge or spin k need
+ * not grow monotonically all the way in.
+ * @returns null if it reaches the horizon intact and the metric stops there
+ */
+export function findTearApart(engine: TearEngine, units: Units, body: FallerBody): TearApart | null {
+  const { metric } = engine;
+  const stressAtN = (n: number) => tidalLoad(metric, units, body, metric.radius(n)).stress;
+  const nStart = engine.cfg.nFaller;
+
+  if (stressAtN(nStart) >= 1) {
+    return { r: metric.radius(nStart), n: nStart, nTau: 0, insideHorizon: false, atRelease: true };
+  }
+
+  const step = SCAN_DECADES / SCAN_STEPS;
+  for (let i = 1; i <= SCAN_STEPS; i++) {
+    if (stressAtN(nStart + i * step) < 1) continue;
+    let low = nStart + (i - 1) * step;
+    let high = nStart + i * step;
+    for (let j = 0; j < 60; j++) {
+      const mid = (low + high) / 2;
+      if (stressAtN(mid) >= 1) high = mid; else low = mid;
+    }
+    return { r: metric.radius(high), n: high, nTau: engine.getNTauAtFallerN(high), insideHorizon: false, atRelease: false };
+  }
+
+  if (!metric.hasInterior) return null;
+
+  // Inside (Schwarzschild), k = 1/r³ only grows on the way to r = 0, where it diverges
+  let low = 0;
+  let high = metric.outerHorizon;
+  for (let j = 0; j < 200 && high - low > 1e-15 * high; j++) {
+    const mid = (low + high) / 2;
+    if (tidalLoad(metric, units, body, mid).stress >= 1) low = mid; else high = mid;
+  }
+  return { r: low, n: Infinity, nTau: null, insideHorizon: true, atRelease: false };
+}
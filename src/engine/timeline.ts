@@ -0,0 +1,203 @@
+// timeline.ts
+
+/**
+ * Engine states sampled over a range of n_tau, plus the photon events of a
+ * PhotonTracker, flattened into rows for CSV or JSON export.
+ *
+ * Times are LogNumbers throughout: the observer's clock and the coordinate
+ * time run past the double range long before n_tau gets interesting. In the
+ * exported files such values are written as exponent strings ("3.1e+4000"),
+ * infinities as "Infinity"; everything else stays a plain number.
+ */
+
+import type { BlackHoleEngine } from "./BlackHoleEngine";
+import { machineNumber } from "./format";
+import { LogNumber } from "./LogNumber";
+import type { TrackedPhoton } from "./PhotonTracker";
+import type { PhotonSource } from "./types";
+import type { createUnits } from "./units";
+
+type Units = ReturnType<typeof createUnits>;
+
+// What sampling needs from the engine (also satisfied by a reactive engine proxy)
+type TimelineEngine = Pick<BlackHoleEngine,
+  'tauMax' | 'tauToNTau' | 'nTauToTau' | 'getStateByNTau' | 'getPhotonIntersectDelta' | 'getObserverNAtTau'>;
+
+/**
+ * 'log'    - uniform in n_tau, i.e. logarithmic in the faller's proper time
+ *            still to go (the engine's own n-space)
+ * 'linear' - uniform in the faller's proper time between the two ends
+ */
+export type TimelineSpacing = 'log' | 'linear';
+
+export const timelineSpacingLabels: Record<TimelineSpacing, string> = {
+  log: 'Logarithmic (uniform n_τ)',
+  linear: 'Linear (uniform τ)',
+};
+
+export interface TimelineOptions {
+  fromNTau: number;
+  toNTau: number;
+  steps: number;     // Number of samples, ends included
+  spacing?: TimelineSpacing; // Defaults to 'log'
+}
+
+export interface TimelineSample {
+  nTau: number;
+  fallerN: number;
+  fallerR: number;                 // rₛ
+  fallerTau: number;               // rₛ/c since release
+  fallerTauRemaining: LogNumber;   // rₛ/c to the horizon; keeps its digits where fallerTau rounds to tauMax
+  observerTau: LogNumber;          // rₛ/c
+  coordinateTime: LogNumber;       // rₛ/c
+  interceptDelta: LogNumber;       // Observer time for a photon sent now to reach the faller (INFINITY if never)
+  fallerAboveHorizonMetres: LogNumber;
+  fallerTauSeconds: LogNumber;
+  fallerTauRemainingSeconds: LogNumber;
+  observerTauSeconds: LogNumber;
+  coordinateTimeSeconds: LogNumber;
+  interceptSeconds: LogNumber;
+}
+
+export type PhotonEventKind = 'emission' | 'reflection' | 'arrival';
+
+export interface PhotonEvent {
+  photonId: number;
+  source: PhotonSource;
+  event: PhotonEventKind;
+  observerTau: LogNumber;          // rₛ/c
+  observerTauSeconds: LogNumber;
+  sinceEmission: LogNumber;        // rₛ/c of observer time after the photon's emission; keeps the
+                                   // reflection's digits where observerTau rounds to the emission's
+  n: number;                       // Where it happened
+}
+
+export interface Timeline {
+  samples: TimelineSample[];
+  photonEvents: PhotonEvent[];     // In order of observer time; events that never happen are left out
+}
+
+// n_tau of each sample
+function sampleNTaus(engine: TimelineEngine, options: TimelineOptions): number[] {
+  const { fromNTau, toNTau, steps } = options;
+  if (!Number.isInteger(steps) || steps < 1)
+    throw new Error(`Need a positive whole number of steps, got ${steps}`);
+  if (!(fromNTau >= 0 && toNTau >= fromNTau))
+    throw new Error(`Need 0 <= from <= to, got ${fromNTau}..${toNTau}`);
+
+  const fraction = (i: number) => steps === 1 ? 0 : i / (steps - 1);
+  if ((options.spacing ?? 'log') === 'log') {
+    return Array.from({ length: steps }, (_, i) => fromNTau + (toNTau - fromNTau) * fraction(i));
+  }
+  const tauFrom = engine.nTauToTau(fromNTau);
+  const tauTo = engine.nTauToTau(toNTau);
+  return Array.from({ length: steps }, (_, i) =>
+    i === steps - 1 ? toNTau : engine.tauToNTau(tauFrom + (tauTo - tauFrom) * fraction(i))
+  );
+}
+
+function sample(engine: TimelineEngine, units: Units, nTau: number): TimelineSample {
+  const state = engine.getStateByNTau(nTau);
+  const fallerTauRemaining = LogNumber.pow10(-nTau).scale(engine.tauMax);
+  const interceptDelta = engine.getPhotonIntersectDelta(state.object2.tau);
+  return {
+    nTau,
+    fallerN: state.object1.n,
+    fallerR: state.object1.r,
+    fallerTau: state.object1.tau,
+    fallerTauRemaining,
+    observerTau: state.object2.tau,
+    coordinateTime: state.coordinateTime,
+    interceptDelta,
+    fallerAboveHorizonMetres: isFinite(state.object1.n) ? LogNumber.pow10(-state.object1.n).scale(units.rs_km * 1000) : LogNumber.ZERO,
+    fallerTauSeconds: units.tauToSecondsLog(LogNumber.fromNumber(state.object1.tau)),
+    fallerTauRemainingSeconds: units.tauToSecondsLog(fallerTauRemaining),
+    observerTauSeconds: units.tauToSecondsLog(state.object2.tau),
+    coordinateTimeSeconds: units.tauToSecondsLog(state.coordinateTime),
+    interceptSeconds: units.tauToSecondsLog(interceptDelta),
+  };
+}
+
+function photonEvents(engine: TimelineEngine, photons: readonly TrackedPhoton[], units: Units): PhotonEvent[] {
+  const events: PhotonEvent[] = [];
+  const push = (photon: TrackedPhoton, event: PhotonEventKind, observerTau: LogNumber, sinceEmission: LogNumber, n: number) => {
+    if (!observerTau.isFinite()) return;
+    events.push({
+      photonId: photon.id, source: photon.source, event,
+      observerTau, observerTauSeconds: units.tauToSecondsLog(observerTau), sinceEmission, n,
+    });
+  };
+  for (const photon of photons) {
+    push(photon, 'emission', photon.emitTau, LogNumber.ZERO, photon.emitN);
+    // A faller photon starts at the faller: its emission is the only event there
+    if (photon.source === 'observer') push(photon, 'reflection', photon.reflectTau, photon.interceptDelta, photon.reflectN);
+    // The way back takes far longer than the trip in, so the difference keeps its digits
+    if (photon.arrivalTau.isFinite()) {
+      push(photon, 'arrival', photon.arrivalTau, photon.arrivalTau.sub(photon.emitTau), engine.getObserverNAtTau(photon.arrivalTau));
+    }
+  }
+  return events.sort((a, b) => a.observerTau.lt(b.observerTau) ? -1 : b.observerTau.lt(a.observerTau) ? 1 : 0);
+}
+
+/**
+ * Sample the engine over [fromNTau, toNTau]
+ * @param photons - Tracked photons whose events go along (e.g. PhotonTracker.emitted)
+ */
+export function sampleTimeline(
+  engine: TimelineEngine,
+  units: Units,
+  options: TimelineOptions,
+  photons: readonly TrackedPhoton[] = []
+): Timeline {
+  return {
+    samples: sampleNTaus(engine, options).map(nTau => sample(engine, units, nTau)),
+    photonEvents: photonEvents(engine, photons, units),
+  };
+}
+
+// ============ EXPORT ============
+
+export type TimelineFormat = 'csv' | 'json';
+
+export function csvCell(value: number | string | boolean): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function machineRecord(record: object): Record<string, number | string> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) =>
+    [key, typeof value === 'number' || value instanceof LogNumber ? machineNumber(value) : value]
+  ));
+}
+
+export function timelineToJson(timeline: Timeline, meta: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    ...meta,
+    samples: timeline.samples.map(machineRecord),
+    photonEvents: timeline.photonEvents.map(machineRecord),
+  }, null, 2);
+}
+
+const SAMPLE_COLUMNS: (keyof TimelineSample)[] = [
+  'nTau', 'fallerN', 'fallerR', 'fallerTau', 'fallerTauRemaining', 'observerTau', 'coordinateTime', 'interceptDelta',
+  'fallerAboveHorizonMetres', 'fallerTauSeconds', 'fallerTauRemainingSeconds', 'observerTauSeconds',
+  'coordinateTimeSeconds', 'interceptSeconds',
+];
+// Observer time columns are shared with the samples
+const EVENT_COLUMNS = ['photonId', 'source', 'sinceEmission', 'n'];
+
+/**
+ * One table, in observer-time columns shared by both kinds of row: a row per
+ * sample (record = "sample"), then a row per photon event (record =
+ * "emission" | "reflection" | "arrival"), each leaving the other's columns empty.
+ */
+export function timelineToCsv(timeline: Timeline): string {
+  const header = ['record', ...SAMPLE_COLUMNS, ...EVENT_COLUMNS];
+  const line = (record: string, values: Record<string, number | string>) =>
+    header.map(key => key === 'record' ? record : key in values ? csvCell(values[key]) : '').join(',');
+  return [
+    header.join(','),
+    ...timeline.samples.map(s => line('sample', machineRecord(s))),
+    ...timeline.photonEvents.map(e => line(e.event, machineRecord(e))),
+  ].join('\n');
+}
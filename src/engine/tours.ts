@@ -0,0 +1,346 @@
+// tours.ts
+
+/**
+ * Guided tours: scripted walks through the simulation. A tour is a list of
+ * steps, each with narration and the actions that set up what it talks
+ * about. The player runs a step's actions in order on entering it; a play
+ * action hands the clock to normal playback until its condition holds.
+ *
+ * Every condition is a moment the clock passes for good (the faller only
+ * gets deeper, the observer's clock only runs on), so it is solved up front
+ * as an n_tau by bisection: playback stops exactly there, and a step that is
+ * skipped or replayed (going back) jumps there instead of waiting. A
+ * condition that never holds (a photon that never reaches the faller outside
+ * the horizon) skips its play.
+ *
+ * Tours are plain JSON, so one can be written by hand and loaded like a
+ * scenario; the built-in ones below use the same format.
+ */
+
+import { physicsModelLabels, type BlackHoleEngine } from "./BlackHoleEngine";
+import { LogNumber } from "./LogNumber";
+import { firstNTau } from "./events";
+import { observerKindLabels } from "./observers";
+import type { TrackedPhoton } from "./PhotonTracker";
+import type { Scenario } from "./scenario";
+import { isSpeed } from "./speeds";
+import type { PhotonSource } from "./types";
+import type { createUnits } from "./units";
+
+type Units = ReturnType<typeof createUnits>;
+
+type TourEngine = Pick<BlackHoleEngine, 'getStateByNTau' | 'getNTauAtFallerN' | 'getNTauAtObserverTau' | 'getReceivedSignal'>;
+
+/** What a set action may change: the setup, not the clock or playback */
+export type TourSetup = Pick<Scenario, 'mass' | 'nFaller' | 'nObserver' | 'model' | 'observerKind' | 'releaseTau' | 'spin' | 'charge'>;
+
+/**
+ * 'nTau'            - the faller's n_tau reaches atLeast
+ * 'fallerN'         - the faller reaches n = atLeast
+ * 'observerSeconds' - the observer's clock reads atLeast seconds
+ * 'redshift'        - the faller's light arrives with 1 + z of atLeast
+ * 'photon'          - the last photon emitted reaches the faller (or is back at the observer)
+ */
+export type TourCondition =
+  | { kind: 'nTau'; atLeast: number }
+  | { kind: 'fallerN'; atLeast: number }
+  | { kind: 'observerSeconds'; atLeast: number }
+  | { kind: 'redshift'; atLeast: number }
+  | { kind: 'photon'; reaches: 'faller' | 'observer' };
+
+/**
+ * 'set'        - change the setup (mass, n, model, ...); the clock starts over
+ * 'seek'       - jump to a moment
+ * 'play'       - play at a speed option until the condition holds
+ * 'emitPhoton' - send a photon from the observer or the faller, now
+ * 'zoom'       - zoom the canvas to a factor, or hand it back to autozoom
+ */
+export type TourAction =
+  | { kind: 'set'; setup: Partial<TourSetup> }
+  | { kind: 'seek'; nTau: number }
+  | { kind: 'play'; speed: string; until: TourCondition }
+  | { kind: 'emitPhoton'; from: PhotonSource }
+  | { kind: 'zoom'; zoom: number | 'auto' };
+
+export interface TourStep {
+  title: string;
+  narration: string;
+  actions: TourAction[];
+}
+
+export interface Tour {
+  id: string;
+  title: string;
+  summary: string;
+  steps: TourStep[];
+}
+
+/** A file that is not a tour this version can run */
+export class TourError extends Error {}
+
+/**
+ * The faller's n_tau at which the condition first holds
+ * @param photon - The last photon emitted, for 'photon' conditions
+ * @returns null if it never does
+ */
+export function conditionNTau(
+  condition: TourCondition,
+  engine: TourEngine,
+  units: Units,
+  photon: TrackedPhoton | null
+): number | null {
+  switch (condition.kind) {
+    case 'nTau':
+      return Math.max(0, condition.atLeast);
+    case 'fallerN':
+      return engine.getNTauAtFallerN(condition.atLeast);
+    case 'observerSeconds':
+      return engine.getNTauAtObserverTau(LogNumber.fromNumber(condition.atLeast / units.tauToSeconds(1)));
+    case 'redshift': {
+      const target = Math.log10(condition.atLeast);
+      return firstNTau(nTau => engine.getReceivedSignal(engine.getStateByNTau(nTau).object2.tau).onePlusZ.log10 >= target);
+    }
+    case 'photon': {
+      // From the emission plus the intercept delta: where that sum rounds to the emission, so does its n_tau
+      if (!photon) return null;
+      const tau = condition.reaches === 'faller' ? photon.emitTau.add(photon.interceptDelta) : photon.arrivalTau;
+      return tau.isFinite() ? engine.getNTauAtObserverTau(tau) : null;
+    }
+  }
+}
+
+/** The condition as the player shows it: "until ..." */
+export function describeCondition(condition: TourCondition): string {
+  switch (condition.kind) {
+    case 'nTau':
+      return `until n_τ = ${condition.atLeast}`;
+    case 'fallerN':
+      return `until the faller reaches n = ${condition.atLeast}`;
+    case 'observerSeconds':
+      return `until the observer's clock reads ${condition.atLeast} s`;
+    case 'redshift':
+      return `until the faller's light arrives with 1 + z = ${condition.atLeast}`;
+    case 'photon':
+      return condition.reaches === 'faller' ? 'until the photon reaches the faller' : 'until the photon is back';
+  }
+}
+
+// ============ PARSING ============
+
+type Raw = Record<string, unknown>;
+
+function object(value: unknown, what: string): Raw {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new TourError(`${what} must be an object`);
+  return value as Raw;
+}
+
+function text(raw: Raw, key: string, what: string): string {
+  const value = raw[key];
+  if (typeof value !== 'string' || value === '') throw new TourError(`${what}: ${key} must be a non-empty string`);
+  return value;
+}
+
+function finite(raw: Raw, key: string, what: string): number {
+  const value = raw[key];
+  if (typeof value !== 'number' || !isFinite(value)) throw new TourError(`${what}: ${key} must be a finite number`);
+  return value;
+}
+
+const SETUP_NUMBERS = ['mass', 'nFaller', 'nObserver', 'releaseTau', 'spin', 'charge'] as const;
+
+// Field by field; whether the engine accepts the combination is left to it, as for scenarios
+function setup(raw: Raw, what: string): Partial<TourSetup> {
+  const result: Partial<TourSetup> = {};
+  for (const key of Object.keys(raw)) {
+    if ((SETUP_NUMBERS as readonly string[]).includes(key)) {
+      result[key as typeof SETUP_NUMBERS[number]] = finite(raw, key, what);
+    } else if (key === 'model') {
+      if (typeof raw.model !== 'string' || !(raw.model in physicsModelLabels))
+        throw new TourError(`${what}: model must be one of ${Object.keys(physicsModelLabels).join(', ')}`);
+      result.model = raw.model as TourSetup['model'];
+    } else if (key === 'observerKind') {
+      if (typeof raw.observerKind !== 'string' || !(raw.observerKind in observerKindLabels))
+        throw new TourError(`${what}: observerKind must be one of ${Object.keys(observerKindLabels).join(', ')}`);
+      result.observerKind = raw.observerKind as TourSetup['observerKind'];
+    } else {
+      throw new TourError(`${what}: unknown setup field "${key}"`);
+    }
+  }
+  return result;
+}
+
+function condition(raw: Raw, what: string): TourCondition {
+  switch (raw.kind) {
+    case 'nTau':
+    case 'fallerN':
+    case 'observerSeconds':
+    case 'redshift':
+      return { kind: raw.kind, atLeast: finite(raw, 'atLeast', what) };
+    case 'photon':
+      if (raw.reaches !== 'faller' && raw.reaches !== 'observer') throw new TourError(`${what}: reaches must be faller or observer`);
+      return { kind: 'photon', reaches: raw.reaches };
+    default:
+      throw new TourError(`${what}: unknown condition "${String(raw.kind)}"`);
+  }
+}
+
+function action(raw: Raw, what: string): TourAction {
+  switch (raw.kind) {
+    case 'set':
+      return { kind: 'set', setup: setup(object(raw.setup, `${what} setup`), what) };
+    case 'seek': {
+      const nTau = raw.nTau === 'Infinity' ? Infinity : finite(raw, 'nTau', what);
+      if (nTau < 0) throw new TourError(`${what}: nTau must not be negative`);
+      return { kind: 'seek', nTau };
+    }
+    case 'play': {
+      const speed = text(raw, 'speed', what);
+      if (!isSpeed(speed)) throw new TourError(`${what}: speed must be one of the playback speed options, got ${JSON.stringify(speed)}`);
+      return { kind: 'play', speed, until: condition(object(raw.until, `${what} until`), what) };
+    }
+    case 'emitPhoton':
+      if (raw.from !== 'observer' && raw.from !== 'faller') throw new TourError(`${what}: from must be observer or faller`);
+      return { kind: 'emitPhoton', from: raw.from };
+    case 'zoom':
+      if (raw.zoom === 'auto') return { kind: 'zoom', zoom: 'auto' };
+      if (!(finite(raw, 'zoom', what) > 0)) throw new TourError(`${what}: zoom must be positive or "auto"`);
+      return { kind: 'zoom', zoom: raw.zoom as number };
+    default:
+      throw new TourError(`${what}: unknown action "${String(raw.kind)}"`);
+  }
+}
+
+/** A tour from its JSON, checked down to every action */
+export function parseTourJson(json: string): Tour {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new TourError("Not a tour: the file is not valid JSON");
+  }
+  const raw = object(parsed, "A tour");
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) throw new TourError("A tour needs a non-empty steps list");
+
+  return {
+    id: text(raw, 'id', 'Tour'),
+    title: text(raw, 'title', 'Tour'),
+    summary: typeof raw.summary === 'string' ? raw.summary : '',
+    steps: raw.steps.map((value, i) => {
+      const what = `Step ${i + 1}`;
+      const step = object(value, what);
+      if (!Array.isArray(step.actions)) throw new TourError(`${what}: actions must be a list`);
+      return {
+        title: text(step, 'title', what),
+        narration: text(step, 'narration', what),
+        actions: step.actions.map((a, j) => action(object(a, `${what}, action ${j + 1}`), `${what}, action ${j + 1}`)),
+      };
+    }),
+  };
+}
+
+// ============ BUILT-IN TOURS ============
+
+// Both tours start from the app's default setup: 10 M☉, faller from rest at 2 rₛ, observer hovering at 11 rₛ
+const DEFAULT_SETUP: TourSetup = {
+  mass: 10, nFaller: 0, nObserver: -1, model: 'asymptotic', observerKind: 'hovering', releaseTau: 10, spin: 0, charge: 0,
+};
+
+export const builtInTours: Tour[] = [
+  {
+    id: 'frozen-star',
+    title: 'The frozen star',
+    summary: 'The faller crosses in a fraction of a millisecond of its own time; from outside it never quite does.',
+    steps: [
+      {
+        title: 'Two clocks',
+        narration: 'A faller lets go at twice the horizon radius of a 10 M☉ hole, while an observer hovers further out. '
+          + 'The two big clocks above are their proper times, each as its owner reads it.',
+        actions: [{ kind: 'set', setup: DEFAULT_SETUP }, { kind: 'seek', nTau: 0 }, { kind: 'zoom', zoom: 'auto' }],
+      },
+      {
+        title: 'The fall',
+        narration: "By its own clock the faller is almost at the horizon in under 300 μs. The observer's clock has already "
+          + 'pulled ahead, and the gap opens faster the closer the faller gets.',
+        actions: [{ kind: 'play', speed: '1us', until: { kind: 'fallerN', atLeast: 2 } }],
+      },
+      {
+        title: 'One decade at a time',
+        narration: "n_τ counts decades of the faller's remaining proper time. Every step of it brings the faller ten times closer, "
+          + 'and costs the observer ten times more waiting.',
+        actions: [{ kind: 'play', speed: '1min', until: { kind: 'nTau', atLeast: 10 } }],
+      },
+      {
+        title: 'Redder and fainter',
+        narration: "What the observer sees is the faller's light, and every decade shifts it further to the red. Long before the "
+          + 'numbers get absurd, the image has faded past any telescope.',
+        actions: [{ kind: 'play', speed: '1min', until: { kind: 'redshift', atLeast: 1e15 } }],
+      },
+      {
+        title: 'Frozen',
+        narration: "Forty-five decades in, the faller is closer to the horizon than a Planck length, its clock stuck a hair short "
+          + "of the crossing. The observer's clock has run far past the age of the universe, and still the crossing is ahead: "
+          + 'on this clock it never comes. That is the frozen star.',
+        actions: [{ kind: 'seek', nTau: 45 }],
+      },
+    ],
+  },
+  {
+    id: 'observer-clock',
+    title: "Why you can still see the observer's clock",
+    summary: 'Light from outside keeps catching the faller, so it watches the outside clock run on to the very end.',
+    steps: [
+      {
+        title: 'A flash from outside',
+        narration: 'Same hole, same faller. The observer sends a flash inward at the moment of release, carrying the reading of '
+          + 'its clock.',
+        actions: [
+          { kind: 'set', setup: DEFAULT_SETUP },
+          { kind: 'seek', nTau: 0 },
+          { kind: 'zoom', zoom: 'auto' },
+          { kind: 'emitPhoton', from: 'observer' },
+        ],
+      },
+      {
+        title: 'Caught',
+        narration: 'The flash catches the faller outside the horizon, a kilometre or so above it. The faller reads a clock that '
+          + 'has moved on since the release, but not by much yet.',
+        actions: [{ kind: 'play', speed: '1us', until: { kind: 'photon', reaches: 'faller' } }],
+      },
+      {
+        title: 'Later flashes, deeper down',
+        narration: 'A flash sent once the faller is five decades in catches it almost at once, just below where it was: the '
+          + "faller hardly moves while the observer's clock races. Each flash it receives carries a far later reading.",
+        actions: [
+          { kind: 'seek', nTau: 5 },
+          { kind: 'emitPhoton', from: 'observer' },
+          { kind: 'play', speed: '1min', until: { kind: 'photon', reaches: 'faller' } },
+        ],
+      },
+      {
+        title: 'And back out',
+        narration: 'A mirror on the faller would send each flash home. The echo is very late and very red, but it arrives: '
+          + 'the two stay in touch however deep the faller gets.',
+        actions: [{ kind: 'play', speed: '1min', until: { kind: 'photon', reaches: 'observer' } }],
+      },
+      {
+        title: 'To the very end',
+        narration: "Twenty decades in, a flash still catches the faller outside: the photon list gives it an arrival time. "
+          + "However late the observer sends one, it gets there before the crossing, so the faller sees the observer's clock "
+          + 'run on to the end, squeezed into the last instants of its own fall. That is why it can still see the clock: it '
+          + 'never drops out of reach of the light.',
+        actions: [{ kind: 'seek', nTau: 20 }, { kind: 'emitPhoton', from: 'observer' }],
+      },
+      {
+        title: 'With exact geodesics',
+        narration: 'Switch to exact geodesics and the flash sent at release never catches the faller outside the horizon: the '
+          + 'photon list says so. Here the faller does cross in finite advanced time, and only light sent before then reaches '
+          + 'it outside. The two models part ways exactly on this point.',
+        actions: [
+          { kind: 'set', setup: { model: 'exact' } },
+          { kind: 'seek', nTau: 0 },
+          { kind: 'emitPhoton', from: 'observer' },
+        ],
+      },
+    ],
+  },
+];
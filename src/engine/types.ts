@@ -1,3 +1,5 @@
+import type { LogNumber } from "./LogNumber";
+
 /**
  * Configuration for the black hole simulation
  */
@@ -35,12 +37,28 @@ export interface EngineState {
 }
 
 /**
- * State of a photon traveling from Object 1 to Object 2
+ * Who sent a tracked photon
+ */
+export type PhotonSource = 'observer' | 'faller';
+
+/**
+ * Where a tracked photon is in its journey:
+ * pending (emitted later than the current time), inbound (observer → faller),
+ * outbound (faller → observer, after reflection or when emitted by the faller),
+ * arrived (back at the observer)
+ */
+export type PhotonPhase = 'pending' | 'inbound' | 'outbound' | 'arrived';
+
+/**
+ * State of a tracked photon at a given observer proper time
  */
 export interface PhotonState {
-  r: number;         // Current radius
-  n: number | null;  // Log scale (only if near horizon)
-  hasArrived: boolean;
+  id: number;
+  source: PhotonSource;
+  phase: PhotonPhase;
+  n: number;            // Log scale position (Infinity at the horizon)
+  eta: LogNumber;       // Observer proper time until reflection/arrival (INFINITY if never)
+  reflects: boolean;    // Observer photons only: meets the faller outside the horizon
 }
 
 /**
@@ -1,18 +1,35 @@
+import { LogNumber } from "./LogNumber";
+
 export const G = 6.674e-11;        // m³/(kg·s²)
 export const c = 299792458;        // m/s
 export const M_SUN = 1.989e30;     // kg
+export const PLANCK_LENGTH = 1.616e-35;    // m
+export const PLANCK_TIME = 5.391e-44;      // s
+export const AGE_OF_UNIVERSE = 4.35e17;    // s (13.8 billion years)
+export const HBAR = 1.0546e-34;    // J·s
+export const K_B = 1.380649e-23;   // J/K
 
 export function createUnits(M_solar: number) {
   const M_kg = M_solar * M_SUN;
   const rs_m = 2 * G * M_kg / (c * c);
   const timeScale = rs_m / c;  // converts geometric time → seconds
 
+  // Hawking radiation of an isolated Schwarzschild hole (photons only, no infalling CMB):
+  // T = ħc³/(8πGMk_B), and the hole radiates itself away in 5120πG²M³/(ħc⁴)
+  const hawkingTemperature = HBAR * c ** 3 / (8 * Math.PI * G * M_kg * K_B);
+  const evaporationSeconds = LogNumber.fromNumber(5120 * Math.PI * G * G / (HBAR * c ** 4)).scale(M_kg).scale(M_kg).scale(M_kg);
+
   return {
     M_solar,
     rs_km: rs_m / 1000,
+    hawkingTemperature,                                     // K
+    evaporationSeconds,                                     // s
+    evaporationTau: evaporationSeconds.scale(1 / timeScale), // rₛ/c
 
     // Converters
     tauToSeconds: (tau: number) => tau * timeScale,
+    tauToSecondsLog: (tau: LogNumber) => tau.scale(timeScale),
     distanceToKm: (r_over_rs: number) => r_over_rs * rs_m / 1000,
+    tidalToPerSecondSquared: (tidal: number) => tidal / (timeScale * timeScale),
   };
 }
\ No newline at end of file